@@ -3,6 +3,32 @@
 import { useState, useRef, useEffect } from "react";
 import Link from "next/link";
 import styles from "./page.module.css";
+import { readSSE, summaryProgressLabel } from "@/lib/sse";
+import type { SummaryProgress } from "@/lib/document-summarizer";
+import type { Citation } from "@/lib/citations";
+import type {
+  AnalysisMode,
+  AnalysisResult,
+  SummaryLength,
+} from "@/lib/document-analysis";
+import type { ComparisonResult } from "@/lib/document-comparison";
+import type { ContextPart, ContextUsage } from "@/lib/context-budget";
+import type { TaskClassification, TaskType } from "@/lib/task-classifier";
+import type { PlanStep, TaskPlan } from "@/lib/task-planner";
+import type { ToolCallRecord } from "@/lib/tool-registry";
+import type { Verification } from "@/lib/answer-verification";
+import { formatReasoningStep, type ReasoningStep } from "@/lib/reasoning-trace";
+import type {
+  ConversationMessage,
+  WorkflowStreamEvent,
+} from "@/lib/advanced-ai-orchestrator";
+import {
+  EXPORT_FORMATS,
+  downloadExport,
+  exportFormatLabels,
+  type ExportFormat,
+  type ExportRequest,
+} from "@/lib/export-request";
 
 interface Message {
   id: string;
@@ -11,23 +37,532 @@ interface Message {
   timestamp: Date;
   files?: File[];
   taskType?: string;
-  reasoningSteps?: string[];
+  classification?: TaskClassification;
+  plan?: TaskPlan;
+  toolCalls?: ToolCallRecord[];
+  verification?: Verification;
+  reasoningSteps?: ReasoningStep[];
   similarContent?: string[];
+  citations?: Citation[];
+  analysis?: AnalysisResult;
+  comparison?: ComparisonResult;
+  contextUsage?: ContextUsage;
+  promptVersions?: string[];
 }
 
+interface NodeProgress {
+  id: string;
+  node: string;
+  durationMs?: number;
+}
+
+interface WorkflowProgress {
+  nodes: NodeProgress[];
+  taskType?: string;
+  classification?: TaskClassification;
+  similarContent?: string[];
+  summaryProgress?: SummaryProgress;
+  // Steps of a compound request and the one running now
+  planSteps?: PlanStep[];
+  planCurrent?: number;
+  toolCalls?: ToolCallRecord[];
+  // Reasoning steps finished while a reasoning answer is held back
+  reasoningSteps?: number;
+  partialResponse: string;
+}
+
+interface MemoryStats {
+  totalVectors?: number;
+  indexStats?: Record<string, unknown>;
+}
+
+class FileReadError extends Error {}
+
+// Turn the "[n]" markers the model cites with into buttons; markers without
+// a matching citation stay plain text
+function renderCitedText(
+  text: string,
+  citations: Citation[],
+  onOpen: (citation: Citation) => void
+) {
+  return text.split(/(\[\d+\])/).map((part, index) => {
+    const marker = part.match(/^\[(\d+)\]$/);
+    const citation =
+      marker && citations.find((c) => c.marker === Number(marker[1]));
+    if (!citation) return part;
+    return (
+      <button
+        key={index}
+        onClick={() => onOpen(citation)}
+        className={styles.citationMarker}
+        title={citationLabel(citation)}
+      >
+        {part}
+      </button>
+    );
+  });
+}
+
+const taskIcons: Record<TaskType, string> = {
+  writing: "✍",
+  reading: "📖",
+  analysis: "🔍",
+  reasoning: "🤔",
+  creative: "🎨",
+  qa: "❓",
+  compare: "⚖",
+};
+
+const taskNames: Record<TaskType, string> = {
+  writing: "Writing Assistant",
+  reading: "Document Analysis",
+  analysis: "Content Analysis",
+  reasoning: "Reasoning Engine",
+  creative: "Creative AI",
+  qa: "Q&A Assistant",
+  compare: "Document Comparison",
+};
+
+// How sure the workflow was of the task type, for the message header
+function classificationLabel(classification?: TaskClassification) {
+  if (!classification) return "";
+  if (classification.method === "override") return " · chosen by you";
+  if (classification.confidence === null) return "";
+  return ` · ${Math.round(classification.confidence * 100)}% sure`;
+}
+
+const analysisModeLabels: Record<AnalysisMode, string> = {
+  summary: "Summary",
+  key_points: "Key points",
+  entities: "Entities, dates & numbers",
+  sentiment: "Sentiment",
+};
+
+// Tables and lists for a structured analysis result, shown in place of the
+// prose version. `cite` renders citation markers inside the text.
+function AnalysisView({
+  analysis,
+  cite,
+}: {
+  analysis: AnalysisResult;
+  cite: (text: string) => React.ReactNode;
+}) {
+  switch (analysis.mode) {
+    case "summary":
+      return <div className={styles.messageText}>{cite(analysis.summary)}</div>;
+    case "key_points":
+      return (
+        <ol className={styles.analysisList}>
+          {analysis.points.map((point, index) => (
+            <li key={index}>
+              <strong>{cite(point.point)}</strong>
+              {point.detail && <span> — {cite(point.detail)}</span>}
+            </li>
+          ))}
+        </ol>
+      );
+    case "entities":
+      return (
+        <>
+          {analysis.entities.length > 0 && (
+            <table className={styles.analysisTable}>
+              <thead>
+                <tr>
+                  <th>Entity</th>
+                  <th>Type</th>
+                  <th>Mentions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.entities.map((entity, index) => (
+                  <tr key={index}>
+                    <td>{cite(entity.text)}</td>
+                    <td>{entity.type}</td>
+                    <td>{entity.mentions ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {analysis.dates.length > 0 && (
+            <table className={styles.analysisTable}>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>ISO</th>
+                  <th>Context</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.dates.map((date, index) => (
+                  <tr key={index}>
+                    <td>{cite(date.text)}</td>
+                    <td>{date.isoDate ?? "—"}</td>
+                    <td>{cite(date.context)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {analysis.numbers.length > 0 && (
+            <table className={styles.analysisTable}>
+              <thead>
+                <tr>
+                  <th>Number</th>
+                  <th>Value</th>
+                  <th>Context</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.numbers.map((number, index) => (
+                  <tr key={index}>
+                    <td>{cite(number.text)}</td>
+                    <td>
+                      {number.value ?? "—"}
+                      {number.unit ? ` ${number.unit}` : ""}
+                    </td>
+                    <td>{cite(number.context)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      );
+    case "sentiment":
+      return (
+        <>
+          <div
+            className={`${styles.sentimentBadge} ${
+              styles[`sentiment_${analysis.overall}`]
+            }`}
+          >
+            {analysis.overall} ({analysis.score.toFixed(2)})
+          </div>
+          {analysis.aspects.length > 0 && (
+            <table className={styles.analysisTable}>
+              <thead>
+                <tr>
+                  <th>Aspect</th>
+                  <th>Sentiment</th>
+                  <th>Evidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.aspects.map((aspect, index) => (
+                  <tr key={index}>
+                    <td>{cite(aspect.aspect)}</td>
+                    <td>{aspect.sentiment}</td>
+                    <td>{cite(aspect.evidence)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      );
+  }
+}
+
+// Section-by-section table and change lists for a document comparison
+function ComparisonView({ comparison }: { comparison: ComparisonResult }) {
+  return (
+    <>
+      {comparison.summary && (
+        <div className={styles.messageText}>{comparison.summary}</div>
+      )}
+      <table className={styles.analysisTable}>
+        <thead>
+          <tr>
+            <th>Section</th>
+            <th>Status</th>
+            <th>Differences</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.sections.map((section) => (
+            <tr key={section.row}>
+              <td>{section.topic}</td>
+              <td>
+                <span
+                  className={`${styles.comparisonStatus} ${
+                    styles[`comparison_${section.status}`]
+                  }`}
+                >
+                  {section.status}
+                </span>
+              </td>
+              <td>{section.summary}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {comparison.additions.length > 0 && (
+        <div className={styles.comparisonGroup}>
+          <strong>Additions</strong>
+          <ul className={styles.analysisList}>
+            {comparison.additions.map((change, index) => (
+              <li key={index}>
+                <em>{change.document}</em> ({change.topic}):{" "}
+                {change.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {comparison.removals.length > 0 && (
+        <div className={styles.comparisonGroup}>
+          <strong>Removals</strong>
+          <ul className={styles.analysisList}>
+            {comparison.removals.map((change, index) => (
+              <li key={index}>
+                <em>{change.document}</em> ({change.topic}):{" "}
+                {change.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {comparison.contradictions.length > 0 && (
+        <div className={styles.comparisonGroup}>
+          <strong>Contradictions</strong>
+          <ul className={styles.analysisList}>
+            {comparison.contradictions.map((contradiction, index) => (
+              <li key={index}>
+                {contradiction.topic}: {contradiction.description}
+                <ul>
+                  {contradiction.statements.map((statement, i) => (
+                    <li key={i}>
+                      <em>{statement.document}</em>: “{statement.statement}”
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
+
+// Each step of a compound request under its instruction, with the sources
+// that step cited
+function PlanView({
+  plan,
+  onOpen,
+}: {
+  plan: TaskPlan;
+  onOpen: (citation: Citation) => void;
+}) {
+  return (
+    <>
+      {plan.steps.map((step, index) => (
+        <div key={index} className={styles.planStep}>
+          <div className={styles.planStepHeader}>
+            {taskIcons[step.taskType]} Step {index + 1} of {plan.steps.length} ·{" "}
+            {taskNames[step.taskType]}
+          </div>
+          <div className={styles.planInstruction}>{step.instruction}</div>
+          <div className={styles.messageText}>
+            {step.response
+              ? renderCitedText(step.response, step.citations || [], onOpen)
+              : "(not run)"}
+          </div>
+          {step.citations && step.citations.length > 0 && (
+            <div className={styles.citationList}>
+              <strong>📌 Sources:</strong>
+              {step.citations.map((citation) => (
+                <button
+                  key={citation.id}
+                  onClick={() => onOpen(citation)}
+                  className={styles.citationItem}
+                >
+                  [{citation.marker}] {citationLabel(citation)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
+const contextPartLabels: Record<ContextPart, string> = {
+  system: "instructions",
+  documents: "documents",
+  memory: "memory",
+  history: "history",
+};
+
+// Tokens each part of the prompt used out of its budget, and the prompt
+// template versions behind the reply
+function ContextUsageLine({
+  usage,
+  promptVersions = [],
+}: {
+  usage: ContextUsage;
+  promptVersions?: string[];
+}) {
+  const parts = (Object.keys(contextPartLabels) as ContextPart[])
+    .filter((part) => part === "system" || usage.parts[part].budget > 0)
+    .map((part) =>
+      part === "system"
+        ? `${contextPartLabels[part]} ${usage.parts[part].used.toLocaleString()}`
+        : `${contextPartLabels[part]} ${usage.parts[part].used.toLocaleString()}/${usage.parts[part].budget.toLocaleString()}`
+    );
+  const summarized =
+    usage.compactedMessages > 0
+      ? ` · ${usage.compactedMessages} earlier messages summarized`
+      : "";
+  return (
+    <div className={styles.contextUsage}>
+      🧮 Context ({usage.contextWindow.toLocaleString()} tokens):{" "}
+      {parts.join(" · ")}
+      {summarized}
+      {promptVersions.length > 0 && ` · prompts ${promptVersions.join(", ")}`}
+    </div>
+  );
+}
+
+// A tool call as name(arguments), and what came back, cut short for display
+function toolCallLabel(call: ToolCallRecord) {
+  const args = Object.entries(call.args)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(", ");
+  return `${call.name}(${args})`;
+}
+
+function toolCallOutcome(call: ToolCallRecord) {
+  if (call.error) return `⚠ ${call.error}`;
+  const result = JSON.stringify(call.result, null, 2) ?? "";
+  return result.length > 600 ? `${result.slice(0, 600)}…` : result;
+}
+
+// Groundedness of a checked answer and the statements its sources do not back
+function VerificationView({ verification }: { verification: Verification }) {
+  const flagged = verification.claims.filter(
+    (claim) => claim.verdict !== "supported"
+  );
+  const { revisions, scores, kept } = verification;
+  const keptLabel =
+    kept === 0 ? "the first draft was kept" : `revision ${kept} was kept`;
+  const revised =
+    revisions > 0
+      ? ` · revised ${revisions === 1 ? "once" : `${revisions} times`} (from ${Math.round(scores[0] * 100)}%)${kept < scores.length - 1 ? `; ${keptLabel}` : ""}`
+      : "";
+  return (
+    <div className={styles.verification}>
+      🔎 Grounded in sources: {Math.round(verification.groundedness * 100)}%
+      {revised}
+      {verification.revisionError && ` · ${verification.revisionError}`}
+      {flagged.length > 0 && (
+        <ul className={styles.analysisList}>
+          {flagged.map((claim, index) => (
+            <li key={index}>
+              <span
+                className={`${styles.claimVerdict} ${styles[`claim_${claim.verdict}`]}`}
+              >
+                {claim.verdict}
+              </span>{" "}
+              {claim.claim}
+              {claim.explanation && <em> · {claim.explanation}</em>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// The steps behind a reasoning answer, opened per message
+function ReasoningTrace({ steps }: { steps: ReasoningStep[] }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className={styles.reasoningSection}>
+      <button onClick={() => setOpen(!open)} className={styles.toggleButton}>
+        {open ? "Hide Reasoning" : `Show Reasoning (${steps.length} steps)`} 🤔
+      </button>
+      {open && (
+        <div className={styles.reasoningSteps}>
+          <h4>Thinking Process:</h4>
+          {steps.map((step, index) => (
+            <div key={index} className={styles.reasoningStep}>
+              <div className={styles.reasoningStepHeader}>
+                Step {index + 1}
+                {step.confidence !== undefined &&
+                  ` · ${Math.round(step.confidence * 100)}% confident`}
+              </div>
+              <div>
+                <strong>Premise:</strong> {step.premise}
+              </div>
+              <div>
+                <strong>Inference:</strong> {step.inference}
+              </div>
+              <div>
+                <strong>Conclusion:</strong> {step.conclusion}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function citationLabel(citation: Citation) {
+  if (citation.kind === "memory") return "Earlier answer";
+  const section = citation.heading ? ` · ${citation.heading}` : "";
+  return `${citation.filename}${section}`;
+}
+
+const nodeLabels: Record<string, string> = {
+  process_files: "Reading files",
+  generate_embeddings: "Searching memory",
+  classify_task: "Figuring out the task",
+  plan_task: "Planning the steps",
+  call_tools: "Choosing tools",
+  run_tools: "Running tools",
+  verify_answer: "Checking the answer against sources",
+  revise_answer: "Revising unsupported statements",
+  handle_writing: "Writing",
+  handle_reading: "Reading documents",
+  handle_analysis: "Analyzing",
+  handle_qa: "Answering",
+  handle_reasoning: "Reasoning",
+  handle_creative: "Getting creative",
+  handle_compare: "Comparing documents",
+};
+
 export default function AIAssistant() {
   const [inputText, setInputText] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [conversationHistory, setConversationHistory] = useState<any[]>([]);
+  const [conversationHistory, setConversationHistory] = useState<
+    ConversationMessage[]
+  >([]);
   const [taskType, setTaskType] = useState<string>("");
-  const [reasoningSteps, setReasoningSteps] = useState<string[]>([]);
+  const [reasoningSteps, setReasoningSteps] = useState<ReasoningStep[]>([]);
   const [similarContent, setSimilarContent] = useState<string[]>([]);
-  const [showReasoning, setShowReasoning] = useState(false);
   const [showContext, setShowContext] = useState(false);
-  const [pineconeStats, setPineconeStats] = useState<any>(null);
+  const [showTools, setShowTools] = useState(false);
+  const [pineconeStats, setPineconeStats] = useState<MemoryStats | null>(null);
   const [isManagingMemory, setIsManagingMemory] = useState(false);
+  const [progress, setProgress] = useState<WorkflowProgress | null>(null);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  // Empty means let the assistant decide whether this is an analysis task
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode | "">("");
+  const [summaryLength, setSummaryLength] = useState<SummaryLength>("medium");
+  // Empty means let the assistant classify the request
+  const [forcedTaskType, setForcedTaskType] = useState<TaskType | "">("");
+  const [verifyAnswers, setVerifyAnswers] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("markdown");
+  // Identifies this conversation's memory; the user comes from a cookie
+  const [memorySessionId, setMemorySessionId] = useState(() =>
+    crypto.randomUUID()
+  );
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -89,6 +624,20 @@ export default function AIAssistant() {
 
     formData.append("input", currentInput);
     formData.append("conversationHistory", JSON.stringify(conversationHistory));
+    formData.append("sessionId", memorySessionId);
+    formData.append("stream", "true");
+    if (forcedTaskType) {
+      formData.append("taskType", forcedTaskType);
+    }
+    if (verifyAnswers) {
+      formData.append("verify", "true");
+    }
+    if (analysisMode) {
+      formData.append("analysisMode", analysisMode);
+      if (analysisMode === "summary") {
+        formData.append("summaryLength", summaryLength);
+      }
+    }
 
     selectedFiles.forEach((file) => {
       formData.append("files", file);
@@ -96,7 +645,10 @@ export default function AIAssistant() {
 
     setInputText("");
     setSelectedFiles([]);
+    // The next request has no files to compare
+    if (forcedTaskType === "compare") setForcedTaskType("");
     setIsLoading(true);
+    setProgress({ nodes: [], partialResponse: "" });
 
     try {
       const response = await fetch("/api/ai", {
@@ -105,40 +657,173 @@ export default function AIAssistant() {
       });
 
       if (!response.ok) {
-        throw new Error("API request failed");
+        const data = await response.json().catch(() => ({}));
+        // 422 means one of the attached files could not be read
+        if (response.status === 422 && data.error) {
+          throw new FileReadError(data.error);
+        }
+        throw new Error(data.error || "API request failed");
       }
 
-      const data = await response.json();
+      let finished = false;
+      await readSSE<WorkflowStreamEvent>(response, (event) => {
+        switch (event.type) {
+          case "node_started":
+            setProgress((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    nodes: [
+                      ...prev.nodes,
+                      {
+                        id: `${event.node}-${prev.nodes.length}`,
+                        node: event.node,
+                      },
+                    ],
+                  }
+                : prev
+            );
+            break;
+          case "node_finished":
+            setProgress((prev) => {
+              if (!prev) return prev;
+              const nodes = [...prev.nodes];
+              const index = nodes.findLastIndex(
+                (n) => n.node === event.node && n.durationMs === undefined
+              );
+              if (index !== -1) {
+                nodes[index] = {
+                  ...nodes[index],
+                  durationMs: event.durationMs,
+                };
+              }
+              return { ...prev, nodes };
+            });
+            break;
+          case "task_type":
+            setProgress((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    taskType: event.taskType,
+                    classification: {
+                      taskType: event.taskType,
+                      confidence: event.confidence,
+                      method: event.method,
+                    },
+                  }
+                : prev
+            );
+            break;
+          case "similar_content":
+            setProgress((prev) =>
+              prev ? { ...prev, similarContent: event.similarContent } : prev
+            );
+            break;
+          case "summary_progress":
+            setProgress((prev) =>
+              prev ? { ...prev, summaryProgress: event } : prev
+            );
+            break;
+          case "plan":
+            setProgress((prev) =>
+              prev ? { ...prev, planSteps: event.steps } : prev
+            );
+            break;
+          case "plan_step":
+            setProgress((prev) => {
+              if (!prev?.planSteps) return prev;
+              if (event.status === "started") {
+                // Stream the new step's reply on its own
+                return {
+                  ...prev,
+                  planCurrent: event.index,
+                  taskType: prev.planSteps[event.index]?.taskType,
+                  partialResponse: "",
+                  summaryProgress: undefined,
+                  reasoningSteps: undefined,
+                };
+              }
+              const planSteps = prev.planSteps.map((step, index) =>
+                index === event.index
+                  ? { ...step, response: event.response }
+                  : step
+              );
+              return { ...prev, planSteps };
+            });
+            break;
+          case "reasoning_progress":
+            setProgress((prev) =>
+              prev ? { ...prev, reasoningSteps: event.steps } : prev
+            );
+            break;
+          case "tool_call":
+            setProgress((prev) =>
+              prev
+                ? { ...prev, toolCalls: [...(prev.toolCalls ?? []), event] }
+                : prev
+            );
+            break;
+          case "token":
+            setProgress((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    partialResponse: prev.partialResponse + event.content,
+                  }
+                : prev
+            );
+            break;
+          case "result": {
+            finished = true;
+            const aiMessage: Message = {
+              id: (Date.now() + 1).toString(),
+              text: event.response || "",
+              sender: "ai",
+              timestamp: new Date(),
+              taskType: event.taskType,
+              classification: event.classification,
+              plan: event.plan,
+              toolCalls: event.toolCalls,
+              verification: event.verification,
+              reasoningSteps: event.reasoningSteps,
+              similarContent: event.similarContent,
+              citations: event.citations,
+              analysis: event.analysis,
+              comparison: event.comparison,
+              contextUsage: event.contextUsage,
+              promptVersions: event.promptVersions,
+            };
 
-      if (data.success) {
-        const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          text: data.response,
-          sender: "ai",
-          timestamp: new Date(),
-          taskType: data.taskType,
-          reasoningSteps: data.reasoningSteps,
-          similarContent: data.similarContent,
-        };
-
-        setMessages((prev) => [...prev, aiMessage]);
-        setConversationHistory(data.conversationHistory || []);
-        setTaskType(data.taskType || "");
-        setReasoningSteps(data.reasoningSteps || []);
-        setSimilarContent(data.similarContent || []);
-      } else {
-        throw new Error(data.error);
+            setMessages((prev) => [...prev, aiMessage]);
+            setConversationHistory(event.conversationHistory || []);
+            setTaskType(event.taskType || "");
+            setReasoningSteps(event.reasoningSteps || []);
+            setSimilarContent(event.similarContent || []);
+            break;
+          }
+          case "error":
+            throw new Error(event.error);
+        }
+      });
+
+      if (!finished) {
+        throw new Error("The response ended unexpectedly");
       }
     } catch (error) {
       console.error("Error:", error);
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
-        text: "Oops! Something went wrong. Please try again! 🔄",
+        text:
+          error instanceof FileReadError
+            ? `Oops! ${error.message} 📄`
+            : "Oops! Something went wrong. Please try again! 🔄",
         sender: "ai",
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      setProgress(null);
       setIsLoading(false);
     }
   };
@@ -160,6 +845,45 @@ export default function AIAssistant() {
     setConversationHistory([]);
     setReasoningSteps([]);
     setSimilarContent([]);
+    setMemorySessionId(crypto.randomUUID());
+  };
+
+  const runExport = async (request: ExportRequest) => {
+    try {
+      await downloadExport(request);
+    } catch (error) {
+      console.error("Export error:", error);
+    }
+  };
+
+  // Transcripts keep each answer's task type, reasoning and sources
+  const exportConversation = () =>
+    runExport({
+      kind: "transcript",
+      format: exportFormat,
+      messages: messages.map((message) => ({
+        role: message.sender === "user" ? "user" : "assistant",
+        content: message.text,
+        timestamp: message.timestamp.toISOString(),
+        taskType: message.taskType,
+        reasoningSteps: message.reasoningSteps?.map(formatReasoningStep),
+        citations: message.citations,
+        attachments: message.files?.map((file) => file.name),
+      })),
+    });
+
+  const exportLatestAnswer = () => {
+    const answer = messages.findLast(
+      (message) => message.sender === "ai" && message.taskType
+    );
+    if (!answer) return;
+    runExport({
+      kind: "summary",
+      format: exportFormat,
+      summary: answer.text,
+      analysis: answer.analysis,
+      citations: answer.citations,
+    });
   };
 
   const getPineconeStats = async () => {
@@ -181,10 +905,14 @@ export default function AIAssistant() {
     }
   };
 
-  const clearPineconeMemory = async () => {
+  // "user" clears everything remembered for this browser, "session" only
+  // what this conversation added
+  const clearPineconeMemory = async (scope: "user" | "session") => {
     try {
       const formData = new FormData();
       formData.append("action", "clear-pinecone");
+      formData.append("scope", scope);
+      formData.append("sessionId", memorySessionId);
 
       const response = await fetch("/api/ai", {
         method: "POST",
@@ -194,7 +922,7 @@ export default function AIAssistant() {
       const data = await response.json();
       if (data.success) {
         setPineconeStats(null);
-        alert("Memory cleared successfully!");
+        alert(data.message || "Memory cleared successfully!");
       }
     } catch (error) {
       console.error("Error clearing Pinecone memory:", error);
@@ -209,30 +937,13 @@ export default function AIAssistant() {
   }, [messages]);
 
   const getMessageHeader = (message: Message) => {
+    if (message.sender === "ai" && message.plan) {
+      return `🗂 Plan of ${message.plan.steps.length} steps`;
+    }
     if (message.sender === "ai" && message.taskType) {
-      const taskIcons = {
-        writing: "✍",
-        reading: "📖",
-        analysis: "🔍",
-        reasoning: "🤔",
-        creative: "🎨",
-        qa: "❓",
-      };
-
-      const taskNames = {
-        writing: "Writing Assistant",
-        reading: "Document Analysis",
-        analysis: "Content Analysis",
-        reasoning: "Reasoning Engine",
-        creative: "Creative AI",
-        qa: "Q&A Assistant",
-      };
-
-      return `${
-        taskIcons[message.taskType as keyof typeof taskIcons] || "🤖"
-      } ${
-        taskNames[message.taskType as keyof typeof taskNames] || "AI Assistant"
-      }`;
+      return `${taskIcons[message.taskType as TaskType] || "🤖"} ${
+        taskNames[message.taskType as TaskType] || "AI Assistant"
+      }${classificationLabel(message.classification)}`;
     }
 
     return message.sender === "user" ? "👤 You" : "🤖 AI Assistant";
@@ -276,7 +987,7 @@ export default function AIAssistant() {
         <div className={styles.aiContainer}>
           <h1>Your Cosmic AI Companion! 🌈</h1>
           <p className={styles.subtitle}>
-            Let's chat, create, and explore together! 🚀
+            Let&apos;s chat, create, and explore together! 🚀
           </p>
 
           {/* Memory Management Panel */}
@@ -291,7 +1002,13 @@ export default function AIAssistant() {
                   Get Memory Stats
                 </button>
                 <button
-                  onClick={clearPineconeMemory}
+                  onClick={() => clearPineconeMemory("session")}
+                  className={styles.memoryButton}
+                >
+                  Clear This Conversation
+                </button>
+                <button
+                  onClick={() => clearPineconeMemory("user")}
                   className={styles.memoryButton}
                 >
                   Clear All Memory
@@ -334,7 +1051,7 @@ export default function AIAssistant() {
                 <div className={styles.welcomeAvatar}>👋</div>
                 <h3>Hello Space Explorer! 🌌</h3>
                 <p>
-                  I'm your friendly AI buddy with memory superpowers! I can
+                  I&apos;m your friendly AI buddy with memory superpowers! I can
                   remember our conversations and learn from them.
                 </p>
                 <div className={styles.featuresGrid}>
@@ -369,7 +1086,56 @@ export default function AIAssistant() {
                     </span>
                   </div>
                   <div className={styles.messageContent}>
-                    <div className={styles.messageText}>{message.text}</div>
+                    {message.plan ? (
+                      <PlanView plan={message.plan} onOpen={setOpenCitation} />
+                    ) : message.comparison ? (
+                      <ComparisonView comparison={message.comparison} />
+                    ) : message.analysis &&
+                      message.analysis.mode !== "summary" ? (
+                      <AnalysisView
+                        analysis={message.analysis}
+                        cite={(text) =>
+                          renderCitedText(
+                            text,
+                            message.citations || [],
+                            setOpenCitation
+                          )
+                        }
+                      />
+                    ) : (
+                      <div className={styles.messageText}>
+                        {message.citations && message.citations.length > 0
+                          ? renderCitedText(
+                              message.text,
+                              message.citations,
+                              setOpenCitation
+                            )
+                          : message.text}
+                      </div>
+                    )}
+                    {message.citations && message.citations.length > 0 && (
+                      <div className={styles.citationList}>
+                        <strong>📌 Sources:</strong>
+                        {message.citations.map((citation) => (
+                          <button
+                            key={citation.id}
+                            onClick={() => setOpenCitation(citation)}
+                            className={styles.citationItem}
+                          >
+                            [{citation.marker}] {citationLabel(citation)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {message.verification && (
+                      <VerificationView verification={message.verification} />
+                    )}
+                    {message.contextUsage && (
+                      <ContextUsageLine
+                        usage={message.contextUsage}
+                        promptVersions={message.promptVersions}
+                      />
+                    )}
                     {message.files && message.files.length > 0 && (
                       <div className={styles.messageFiles}>
                         <strong>📁 Attached:</strong>
@@ -382,30 +1148,36 @@ export default function AIAssistant() {
                     )}
                   </div>
 
+                  {/* Tool Calls */}
+                  {message.toolCalls && message.toolCalls.length > 0 && (
+                    <div className={styles.contextSection}>
+                      <button
+                        onClick={() => setShowTools(!showTools)}
+                        className={styles.toggleButton}
+                      >
+                        {showTools
+                          ? "Hide Tools"
+                          : `Show Tools Used (${message.toolCalls.length})`}{" "}
+                        🛠
+                      </button>
+                      {showTools && (
+                        <div className={styles.similarContent}>
+                          <h4>Tool Calls:</h4>
+                          {message.toolCalls.map((call) => (
+                            <div key={call.id} className={styles.toolCall}>
+                              <strong>{toolCallLabel(call)}</strong>
+                              <pre>{toolCallOutcome(call)}</pre>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Reasoning Steps */}
                   {message.reasoningSteps &&
                     message.reasoningSteps.length > 0 && (
-                      <div className={styles.reasoningSection}>
-                        <button
-                          onClick={() => setShowReasoning(!showReasoning)}
-                          className={styles.toggleButton}
-                        >
-                          {showReasoning
-                            ? "Hide Reasoning"
-                            : "Show Reasoning Steps"}{" "}
-                          🤔
-                        </button>
-                        {showReasoning && (
-                          <div className={styles.reasoningSteps}>
-                            <h4>Thinking Process:</h4>
-                            {message.reasoningSteps.map((step, index) => (
-                              <div key={index} className={styles.reasoningStep}>
-                                {step}
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
+                      <ReasoningTrace steps={message.reasoningSteps} />
                     )}
 
                   {/* Similar Content */}
@@ -436,19 +1208,105 @@ export default function AIAssistant() {
                 </div>
               ))
             )}
-            {isLoading && (
-              <div className={styles.aiMessage}>
-                <div className={styles.messageAvatar}>🤖</div>
-                <div className={styles.messageContent}>
-                  <div className={styles.typingIndicator}>
-                    <span>Thinking</span>
-                    <div className={styles.typingDots}>
-                      <span></span>
-                      <span></span>
-                      <span></span>
+            {isLoading && progress && (
+              <div className={`${styles.message} ${styles.aiMessage}`}>
+                <div className={styles.messageHeader}>
+                  <span className={styles.sender}>
+                    {getMessageHeader({
+                      id: "progress",
+                      text: "",
+                      sender: "ai",
+                      timestamp: new Date(),
+                      taskType: progress.taskType,
+                      classification: progress.classification,
+                    })}
+                  </span>
+                </div>
+                <div className={styles.progressSteps}>
+                  {progress.nodes.length === 0 && (
+                    <div className={styles.typingIndicator}>
+                      <span>Thinking</span>
+                      <div className={styles.typingDots}>
+                        <span></span>
+                        <span></span>
+                        <span></span>
+                      </div>
                     </div>
-                  </div>
+                  )}
+                  {progress.nodes.map((step) => (
+                    <div key={step.id} className={styles.progressStep}>
+                      <span>{step.durationMs === undefined ? "⏳" : "✅"}</span>
+                      <span>{nodeLabels[step.node] || step.node}</span>
+                      {step.durationMs !== undefined && (
+                        <span className={styles.progressDuration}>
+                          {(step.durationMs / 1000).toFixed(1)}s
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                  {progress.summaryProgress && (
+                    <div className={styles.progressStep}>
+                      <span>
+                        {progress.summaryProgress.completed <
+                        progress.summaryProgress.total
+                          ? "⏳"
+                          : "✅"}
+                      </span>
+                      <span>
+                        {summaryProgressLabel(progress.summaryProgress)}
+                      </span>
+                    </div>
+                  )}
+                  {progress.planSteps?.map((step, index) => (
+                    <div key={`plan-${index}`} className={styles.progressStep}>
+                      <span>
+                        {step.response !== undefined
+                          ? "✅"
+                          : index === progress.planCurrent
+                            ? "⏳"
+                            : "▫"}
+                      </span>
+                      <span>
+                        Step {index + 1}: {taskIcons[step.taskType]}{" "}
+                        {step.instruction}
+                      </span>
+                    </div>
+                  ))}
+                  {progress.toolCalls?.map((call) => (
+                    <div key={call.id} className={styles.progressStep}>
+                      <span>{call.error ? "⚠" : "🛠"}</span>
+                      <span>{toolCallLabel(call)}</span>
+                    </div>
+                  ))}
+                  {progress.reasoningSteps !== undefined &&
+                    !progress.partialResponse && (
+                      <div className={styles.progressStep}>
+                        <span>🤔</span>
+                        <span>
+                          {progress.reasoningSteps === 1
+                            ? "1 reasoning step"
+                            : `${progress.reasoningSteps} reasoning steps`}{" "}
+                          so far; the answer appears once the reasoning is
+                          complete
+                        </span>
+                      </div>
+                    )}
+                  {progress.similarContent !== undefined && (
+                    <div className={styles.progressStep}>
+                      <span>📚</span>
+                      <span>
+                        Found {progress.similarContent.length} related memories
+                      </span>
+                    </div>
+                  )}
                 </div>
+                {progress.partialResponse && (
+                  <div className={styles.messageContent}>
+                    <div className={styles.messageText}>
+                      {progress.partialResponse}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -494,6 +1352,7 @@ export default function AIAssistant() {
                     ref={fileInputRef}
                     onChange={handleFileSelect}
                     className={styles.fileInput}
+                    accept=".txt,.pdf,.docx,.md,.markdown"
                     multiple
                   />
                   <button
@@ -528,6 +1387,110 @@ export default function AIAssistant() {
               </div>
             </div>
 
+            <div className={styles.analysisOptions}>
+              <label>
+                🧭 Task:{" "}
+                <select
+                  value={forcedTaskType}
+                  onChange={(e) =>
+                    setForcedTaskType(e.target.value as TaskType | "")
+                  }
+                  className={styles.analysisSelect}
+                >
+                  <option value="">Auto</option>
+                  {(Object.keys(taskNames) as TaskType[]).map((task) => (
+                    <option
+                      key={task}
+                      value={task}
+                      disabled={task === "compare" && selectedFiles.length < 2}
+                    >
+                      {taskIcons[task]} {taskNames[task]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                🔍 Analysis:{" "}
+                <select
+                  value={analysisMode}
+                  onChange={(e) =>
+                    setAnalysisMode(e.target.value as AnalysisMode | "")
+                  }
+                  className={styles.analysisSelect}
+                >
+                  <option value="">Auto</option>
+                  {(Object.keys(analysisModeLabels) as AnalysisMode[]).map(
+                    (mode) => (
+                      <option key={mode} value={mode}>
+                        {analysisModeLabels[mode]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={verifyAnswers}
+                  onChange={(e) => setVerifyAnswers(e.target.checked)}
+                />{" "}
+                🔎 Check answers against sources
+              </label>
+              {analysisMode === "summary" && (
+                <label>
+                  Length:{" "}
+                  <select
+                    value={summaryLength}
+                    onChange={(e) =>
+                      setSummaryLength(e.target.value as SummaryLength)
+                    }
+                    className={styles.analysisSelect}
+                  >
+                    <option value="short">Short</option>
+                    <option value="medium">Medium</option>
+                    <option value="long">Long</option>
+                  </select>
+                </label>
+              )}
+              {messages.length > 0 && (
+                <div className={styles.exportOptions}>
+                  <label>
+                    ⬇ Export as:{" "}
+                    <select
+                      value={exportFormat}
+                      onChange={(e) =>
+                        setExportFormat(e.target.value as ExportFormat)
+                      }
+                      className={styles.analysisSelect}
+                    >
+                      {EXPORT_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {exportFormatLabels[format]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={exportConversation}
+                    className={styles.exportButton}
+                  >
+                    Conversation
+                  </button>
+                  <button
+                    onClick={exportLatestAnswer}
+                    className={styles.exportButton}
+                    disabled={
+                      !messages.some(
+                        (message) => message.sender === "ai" && message.taskType
+                      )
+                    }
+                  >
+                    Latest answer
+                  </button>
+                </div>
+              )}
+            </div>
+
             <div className={styles.helpText}>
               <p>
                 💫 <strong>Pro Tip:</strong> I can remember our conversations
@@ -537,6 +1500,41 @@ export default function AIAssistant() {
           </div>
         </div>
       </main>
+
+      {/* Cited passage */}
+      {openCitation && (
+        <div
+          className={styles.citationOverlay}
+          onClick={() => setOpenCitation(null)}
+        >
+          <div
+            className={styles.citationModal}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className={styles.citationHeader}>
+              <h3>
+                [{openCitation.marker}] {citationLabel(openCitation)}
+              </h3>
+              <button
+                onClick={() => setOpenCitation(null)}
+                className={styles.citationClose}
+                title="Close"
+              >
+                ×
+              </button>
+            </div>
+            {openCitation.kind === "document" && (
+              <p className={styles.citationMeta}>
+                Chunk {(openCitation.chunkIndex ?? 0) + 1} · characters{" "}
+                {openCitation.start}–{openCitation.end}
+              </p>
+            )}
+            <blockquote className={styles.citationQuote}>
+              {openCitation.text}
+            </blockquote>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,268 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  runAdvancedAIWorkflow,
+  streamAdvancedAIWorkflow,
+  getPineconeStats,
+  clearPineconeIndex,
+  type ConversationMessage,
+  type UploadedFile,
+  type WorkflowStreamEvent,
+} from "@/lib/advanced-ai-orchestrator";
+import { DocumentParseError, parseDocument } from "@/lib/document-parser";
+import {
+  ANALYSIS_MODES,
+  SUMMARY_LENGTHS,
+  type AnalysisRequest,
+} from "@/lib/document-analysis";
+import { createSSEResponse } from "@/lib/sse";
+import { TASK_TYPES, type TaskType } from "@/lib/task-classifier";
+import { getUserId } from "@/lib/user-identity";
+import type { MemoryScope } from "@/lib/vector-store";
+
+// The orchestrator reads files and talks to Pinecone, so keep it on Node
+export const runtime = "nodejs";
+
+function parseConversationHistory(
+  raw: FormDataEntryValue | null
+): ConversationMessage[] {
+  if (typeof raw !== "string" || !raw) return [];
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error("conversationHistory must be an array");
+  }
+  return parsed.filter(
+    (msg): msg is ConversationMessage =>
+      typeof msg?.role === "string" && typeof msg?.content === "string"
+  );
+}
+
+// Conversation ids come from the client and end up in vector ids and
+// metadata, so keep them to a safe alphabet
+const sessionIdPattern = /^[\w-]{1,100}$/;
+
+function readSessionId(raw: FormDataEntryValue | null) {
+  if (raw === null || raw === "") return undefined;
+  if (typeof raw !== "string" || !sessionIdPattern.test(raw)) {
+    throw new Error("sessionId must be letters, digits, '_' or '-'");
+  }
+  return raw;
+}
+
+function readAnalysisRequest(formData: FormData): AnalysisRequest {
+  const mode = formData.get("analysisMode") || undefined;
+  const summaryLength = formData.get("summaryLength") || undefined;
+  if (
+    mode !== undefined &&
+    !ANALYSIS_MODES.includes(mode as (typeof ANALYSIS_MODES)[number])
+  ) {
+    throw new Error(`analysisMode must be one of ${ANALYSIS_MODES.join(", ")}`);
+  }
+  if (
+    summaryLength !== undefined &&
+    !SUMMARY_LENGTHS.includes(summaryLength as (typeof SUMMARY_LENGTHS)[number])
+  ) {
+    throw new Error(
+      `summaryLength must be one of ${SUMMARY_LENGTHS.join(", ")}`
+    );
+  }
+  return { mode, summaryLength } as AnalysisRequest;
+}
+
+// A task type the caller forces instead of letting the workflow classify
+function readTaskType(raw: FormDataEntryValue | null, uploadCount: number) {
+  if (raw === null || raw === "") return undefined;
+  if (typeof raw !== "string" || !TASK_TYPES.includes(raw as TaskType)) {
+    throw new Error(`taskType must be one of ${TASK_TYPES.join(", ")}`);
+  }
+  if (raw === "compare" && uploadCount < 2) {
+    throw new Error("taskType compare needs at least two files");
+  }
+  return raw as TaskType;
+}
+
+async function readUploads(entries: FormDataEntryValue[]) {
+  const uploads: UploadedFile[] = [];
+  for (const entry of entries) {
+    if (typeof entry === "string") continue;
+    const document = await parseDocument(
+      entry.name,
+      new Uint8Array(await entry.arrayBuffer())
+    );
+    uploads.push({ name: document.name, content: document.text });
+  }
+  return uploads;
+}
+
+// Memory actions cover all of the caller's memory unless they pass
+// scope=session together with a sessionId
+async function handleAction(action: string, scope: MemoryScope) {
+  switch (action) {
+    case "pinecone-stats": {
+      const stats = await getPineconeStats(scope);
+      if ("error" in stats) {
+        return NextResponse.json({ error: stats.error }, { status: 500 });
+      }
+      return NextResponse.json({ success: true, stats });
+    }
+    case "clear-pinecone": {
+      const result = await clearPineconeIndex(scope);
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: 500 });
+      }
+      return NextResponse.json({ success: true, message: result.message });
+    }
+    default:
+      return NextResponse.json(
+        { error: `Unknown action: ${action}` },
+        { status: 400 }
+      );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be multipart form data" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    let sessionId: string | undefined;
+    try {
+      sessionId = readSessionId(formData.get("sessionId"));
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 }
+      );
+    }
+    const userId = await getUserId();
+
+    const action = formData.get("action");
+    if (typeof action === "string" && action) {
+      const sessionScoped = formData.get("scope") === "session";
+      if (sessionScoped && !sessionId) {
+        return NextResponse.json(
+          { error: "scope=session requires a sessionId" },
+          { status: 400 }
+        );
+      }
+      return await handleAction(action, {
+        userId,
+        sessionId: sessionScoped ? sessionId : undefined,
+      });
+    }
+
+    const input = formData.get("input");
+    let uploads: UploadedFile[];
+    try {
+      uploads = await readUploads(formData.getAll("files"));
+    } catch (error) {
+      if (error instanceof DocumentParseError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: 422 }
+        );
+      }
+      throw error;
+    }
+    if ((typeof input !== "string" || !input.trim()) && uploads.length === 0) {
+      return NextResponse.json(
+        { error: "Input or files are required" },
+        { status: 400 }
+      );
+    }
+
+    let conversationHistory: ConversationMessage[];
+    try {
+      conversationHistory = parseConversationHistory(
+        formData.get("conversationHistory")
+      );
+    } catch {
+      return NextResponse.json(
+        { error: "conversationHistory must be a JSON array" },
+        { status: 400 }
+      );
+    }
+
+    let analysis: AnalysisRequest;
+    let taskType: TaskType | undefined;
+    try {
+      analysis = readAnalysisRequest(formData);
+      taskType = readTaskType(formData.get("taskType"), uploads.length);
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const userInput = typeof input === "string" ? input : "";
+    const verify = formData.get("verify") === "true";
+
+    if (formData.get("stream") === "true") {
+      return createSSEResponse<WorkflowStreamEvent>(async (send) => {
+        const events = streamAdvancedAIWorkflow(
+          userInput,
+          [],
+          conversationHistory,
+          {
+            uploads,
+            memoryScope: { userId, sessionId },
+            analysis,
+            taskType,
+            verify,
+            signal: request.signal,
+          }
+        );
+        for await (const event of events) {
+          send(event);
+        }
+      }, request.signal);
+    }
+
+    const result = await runAdvancedAIWorkflow(
+      userInput,
+      [],
+      conversationHistory,
+      {
+        uploads,
+        memoryScope: { userId, sessionId },
+        analysis,
+        taskType,
+        verify,
+      }
+    );
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      response: result.response,
+      taskType: result.taskType,
+      classification: result.classification,
+      plan: result.plan,
+      toolCalls: result.toolCalls || [],
+      verification: result.verification,
+      reasoningSteps: result.reasoningSteps || [],
+      similarContent: result.similarContent || [],
+      citations: result.citations || [],
+      analysis: result.analysis,
+      comparison: result.comparison,
+      contextUsage: result.contextUsage,
+      promptVersions: result.promptVersions || [],
+      conversationHistory: result.conversationHistory || [],
+    });
+  } catch (error) {
+    console.error("AI API Error:", error);
+    return NextResponse.json(
+      { error: "Failed to process your request" },
+      { status: 500 }
+    );
+  }
+}
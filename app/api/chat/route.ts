@@ -1,43 +1,430 @@
+import { SystemMessage } from "@langchain/core/messages";
 import { NextRequest, NextResponse } from "next/server";
-import { OpenAI } from "openai";
+import { z } from "zod";
+import { historyToMessages, sanitizeContent } from "@/lib/chat-history";
+import type { ChatModel } from "@/lib/chat-models";
+import { formatSources, type ContextSource } from "@/lib/citations";
+import {
+  PROMPT_MARGIN_TOKENS,
+  SUMMARY_ROLE,
+  fitContext,
+  historySummarySchema,
+  historyTokens,
+  planContext,
+  type HistoryEntry,
+  type HistorySummary,
+} from "@/lib/context-budget";
+import { DocumentParseError, parseDocument } from "@/lib/document-parser";
+import {
+  condenseDocuments,
+  type CondenseOptions,
+} from "@/lib/document-summarizer";
+import { JsonOutputError, invokeForJson } from "@/lib/json-output";
+import { getChatModel, ModelUnavailableError } from "@/lib/model-routing";
+import { PromptUnavailableError, renderPrompt } from "@/lib/prompt-registry";
+import { createSSEResponse, type ChatStreamEvent } from "@/lib/sse";
+import {
+  SUGGESTED_EDIT_INSTRUCTIONS,
+  editProposalsSchema,
+  resolveEdits,
+} from "@/lib/suggested-edits";
+import { countTokens } from "@/lib/token-count";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+export const runtime = "nodejs";
+
+// POST checks messages, mode and historySummary field by field, since
+// multipart bodies carry them too
+const jsonBodySchema = z.object({
+  messages: z.unknown(),
+  fileContent: z.string().optional(),
+  fileName: z.string().max(200).optional(),
+  stream: z.boolean().optional(),
+  // "edit" returns suggested edits to the document instead of a reply
+  mode: z.unknown(),
+  // The rolling summary from the previous reply, standing in for the
+  // oldest messages
+  historySummary: z.unknown(),
 });
 
+type ChatRequestBody = z.infer<typeof jsonBodySchema>;
+
+class BadRequestError extends Error {}
+
+class DocumentTooLargeError extends Error {}
+
+// The chat body is JSON, or multipart form data when the document is sent as
+// a file (`messages` and `historySummary` as JSON strings, `file`, `stream`,
+// `mode`) so the server can extract its text. Malformed JSON fields read as
+// null, which the field checks in POST reject with a 400.
+function parseJsonField(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+async function readChatRequest(request: NextRequest): Promise<ChatRequestBody> {
+  const contentType = request.headers.get("content-type") || "";
+  if (!contentType.includes("multipart/form-data")) {
+    const body = jsonBodySchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!body.success) {
+      const field = body.error.issues[0]?.path[0];
+      throw new BadRequestError(
+        field === undefined
+          ? "Body must be a JSON object"
+          : `${String(field)} has the wrong type`
+      );
+    }
+    return body.data;
+  }
+  const formData = await request.formData();
+  const rawMessages = formData.get("messages");
+  const rawSummary = formData.get("historySummary");
+  const file = formData.get("file");
+  let fileContent: string | undefined;
+  let fileName: string | undefined;
+  if (file && typeof file !== "string") {
+    const document = await parseDocument(
+      file.name,
+      new Uint8Array(await file.arrayBuffer())
+    );
+    fileContent = document.text;
+    fileName = document.name;
+  }
+  return {
+    messages:
+      typeof rawMessages === "string" ? parseJsonField(rawMessages) : null,
+    fileContent,
+    fileName,
+    stream: formData.get("stream") === "true",
+    mode: formData.get("mode") || undefined,
+    historySummary:
+      typeof rawSummary === "string" && rawSummary
+        ? parseJsonField(rawSummary)
+        : undefined,
+  };
+}
+
+// The DocMind persona, from the prompt registry
+const assistantPrompt = () => renderPrompt("chat-assistant", {});
+
+const documentPrompt = (document: string) =>
+  renderPrompt("chat-document", { document });
+
+const condensedPrompt = (notes: string) =>
+  renderPrompt("chat-condensed", { notes });
+
+const chatMessagesSchema = z.array(
+  z.object({ role: z.string(), content: z.string() })
+);
+
+type ChatMessage = z.infer<typeof chatMessagesSchema>[number];
+
+// The new message and the history before it: the rolling summary, if any,
+// then the messages it does not cover
+function splitConversation(
+  messages: ChatMessage[],
+  summary: HistorySummary | undefined
+) {
+  const prior = messages.slice(0, -1);
+  const history: HistoryEntry[] = [
+    ...(summary ? [{ role: SUMMARY_ROLE, content: summary.content }] : []),
+    ...prior.slice(summary?.messageCount ?? 0),
+  ];
+  return { prior, input: messages[messages.length - 1].content, history };
+}
+
+// The summary compaction left at the start of the fitted history, with the
+// number of messages it now stands for
+function rollingSummary(
+  fitted: HistoryEntry[],
+  prior: ChatMessage[]
+): HistorySummary | undefined {
+  const [first, ...rest] = fitted;
+  if (first?.role !== SUMMARY_ROLE) return undefined;
+  return { content: first.content, messageCount: prior.length - rest.length };
+}
+
+// Fit the conversation into the chat model's context. The document goes
+// into the system message whole when it fits its budget and condensed
+// section by section when it does not; messages beyond the history budget
+// are folded into the rolling summary, which the client sends back with the
+// next request.
+async function buildChatContext(
+  model: ChatModel,
+  messages: ChatMessage[],
+  summary: HistorySummary | undefined,
+  document: { name: string; content: string } | undefined,
+  options: CondenseOptions
+) {
+  const { prior, input, history } = splitConversation(messages, summary);
+
+  let documents: ContextSource[] = [];
+  let condensed = false;
+  if (document) {
+    const plan = planContext(model, condensedPrompt("").text, input, {
+      documents: countTokens(document.content, model),
+      memory: 0,
+      history: historyTokens(history, model),
+    });
+    // The notes serve the whole conversation rather than one message, so
+    // later turns reuse them instead of condensing the document again
+    ({ sources: documents, condensed } = await condenseDocuments(
+      model,
+      [document],
+      plan.budgets.documents,
+      options
+    ));
+  }
+  const fitted = await fitContext(
+    model,
+    {
+      system: (document ? condensedPrompt("") : assistantPrompt()).text,
+      input,
+      documents,
+      history,
+    },
+    { signal: options.signal }
+  );
+
+  const system = !document
+    ? assistantPrompt()
+    : condensed
+      ? condensedPrompt(formatSources(fitted.documents))
+      : documentPrompt(document.content);
+  return {
+    messages: [
+      new SystemMessage(system.text),
+      ...historyToMessages(fitted.history, sanitizeContent(input)),
+    ],
+    usage: fitted.usage,
+    promptVersion: system.version,
+    historySummary: rollingSummary(fitted.history, prior),
+  };
+}
+
+// Edits quote the document, so it always goes in whole and only the
+// history is compacted to fit beside it
+async function buildEditContext(
+  model: ChatModel,
+  messages: ChatMessage[],
+  summary: HistorySummary | undefined,
+  document: string,
+  signal: AbortSignal
+) {
+  const { prior, input, history } = splitConversation(messages, summary);
+  const prompt = renderPrompt("chat-edit", {
+    document,
+    instructions: SUGGESTED_EDIT_INSTRUCTIONS,
+  });
+  const plan = planContext(model, prompt.text, input, {
+    documents: 0,
+    memory: 0,
+    history: 0,
+  });
+  if (plan.system + plan.reply + PROMPT_MARGIN_TOKENS > model.contextWindow) {
+    throw new DocumentTooLargeError(
+      `The document is too long to suggest edits to (about ${plan.system} tokens with your message; the edit model reads ${model.contextWindow - plan.reply - PROMPT_MARGIN_TOKENS}). Ask for edits to a shorter part of it.`
+    );
+  }
+  const fitted = await fitContext(
+    model,
+    { system: prompt.text, input, history },
+    { signal }
+  );
+  return {
+    messages: [
+      new SystemMessage(prompt.text),
+      ...historyToMessages(fitted.history, sanitizeContent(input)),
+    ],
+    usage: fitted.usage,
+    promptVersion: prompt.version,
+    historySummary: rollingSummary(fitted.history, prior),
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { messages, fileContent: uploadedFileContent } = await request.json();
+    const {
+      messages: rawMessages,
+      fileContent: uploadedFileContent,
+      fileName,
+      stream,
+      mode,
+      historySummary: rawSummary,
+    } = await readChatRequest(request);
 
-    if (!messages || !Array.isArray(messages)) {
+    if (!rawMessages || !Array.isArray(rawMessages)) {
       return NextResponse.json(
         { error: "Messages array is required" },
         { status: 400 }
       );
     }
+    const parsed = chatMessagesSchema.safeParse(rawMessages);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Each message needs a role and text content" },
+        { status: 400 }
+      );
+    }
+    const messages = parsed.data;
+    // Earlier turns are replayed by role, but the new one is always the user's
+    if (messages[messages.length - 1]?.role !== "user") {
+      return NextResponse.json(
+        { error: "The last message must be from the user" },
+        { status: 400 }
+      );
+    }
+
+    const summary =
+      rawSummary === undefined
+        ? undefined
+        : historySummarySchema.safeParse(rawSummary);
+    if (
+      summary &&
+      (!summary.success || summary.data.messageCount >= messages.length)
+    ) {
+      return NextResponse.json(
+        { error: "historySummary must cover earlier messages only" },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== undefined && mode !== "chat" && mode !== "edit") {
+      return NextResponse.json(
+        { error: 'mode must be "chat" or "edit"' },
+        { status: 400 }
+      );
+    }
+
+    // Edit mode answers with tracked changes against the document. Edits
+    // are small, so the reply is not streamed.
+    if (mode === "edit") {
+      if (!uploadedFileContent) {
+        return NextResponse.json(
+          { error: "Suggested edits need a document" },
+          { status: 400 }
+        );
+      }
+      const editModel = getChatModel("edit");
+      const context = await buildEditContext(
+        editModel,
+        messages,
+        summary?.data,
+        uploadedFileContent,
+        request.signal
+      );
+      const { data } = await invokeForJson(
+        editModel,
+        context.messages,
+        editProposalsSchema,
+        { signal: request.signal }
+      );
+      const edits = resolveEdits(uploadedFileContent, data.edits);
+      return NextResponse.json({
+        message:
+          data.summary ||
+          (edits.length > 0
+            ? `I suggested ${edits.length} edits.`
+            : "I don't have any edits to suggest."),
+        edits,
+        context: context.usage,
+        promptVersion: context.promptVersion,
+        historySummary: context.historySummary,
+        success: true,
+      });
+    }
 
+    // The model behind DocMind is the "chat" route in model-routing
+    const model = getChatModel("chat");
     // If file content is provided, prepend it to the conversation
-    const systemMessage = {
-      role: "system",
-      content: uploadedFileContent
-        ? `You are DocMind, a helpful document assistant. The user has provided a file with the following content: ${uploadedFileContent}. Help users with document-related tasks including writing, editing, summarizing, formatting, and analyzing documents. Keep responses focused and practical.`
-        : "You are DocMind, a helpful document assistant. Help users with document-related tasks including writing, editing, summarizing, formatting, and analyzing documents. Keep responses focused and practical.",
-    };
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [systemMessage, ...messages],
-      max_tokens: 1000,
-      temperature: 0.7,
+    const document = uploadedFileContent
+      ? { name: fileName || "document", content: uploadedFileContent }
+      : undefined;
+
+    if (stream) {
+      return createSSEResponse<ChatStreamEvent>(async (send) => {
+        try {
+          const context = await buildChatContext(
+            model,
+            messages,
+            summary?.data,
+            document,
+            {
+              signal: request.signal,
+              onProgress: (progress) =>
+                send({ type: "summary_progress", ...progress }),
+            }
+          );
+          send({
+            type: "context",
+            usage: context.usage,
+            promptVersion: context.promptVersion,
+            historySummary: context.historySummary,
+          });
+          // Passing the request signal cancels the upstream completion when
+          // the client disconnects or presses stop
+          const tokens = model.stream(context.messages, {
+            signal: request.signal,
+          });
+          for await (const token of tokens) {
+            send({ type: "token", content: token });
+          }
+          send({ type: "done" });
+        } catch (error) {
+          if (request.signal.aborted) return;
+          console.error("API Stream Error:", error);
+          send({ type: "error", error: "Failed to process your request" });
+        }
+      }, request.signal);
+    }
+
+    const context = await buildChatContext(
+      model,
+      messages,
+      summary?.data,
+      document,
+      { signal: request.signal }
+    );
+    const response = await model.invoke(context.messages, {
+      signal: request.signal,
     });
 
     return NextResponse.json({
-      message:
-        response.choices[0]?.message?.content ||
-        "Sorry, I couldn't generate a response.",
+      message: response || "Sorry, I couldn't generate a response.",
+      context: context.usage,
+      promptVersion: context.promptVersion,
+      historySummary: context.historySummary,
       success: true,
     });
   } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof DocumentTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    if (error instanceof DocumentParseError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 422 }
+      );
+    }
+    if (
+      error instanceof ModelUnavailableError ||
+      error instanceof PromptUnavailableError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    if (error instanceof JsonOutputError) {
+      return NextResponse.json(
+        { error: "The model did not return valid edits", issues: error.issues },
+        { status: 422 }
+      );
+    }
     console.error("API Error:", error);
     return NextResponse.json(
       { error: "Failed to process your request" },
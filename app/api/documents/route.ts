@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentParseError, parseDocument } from "@/lib/document-parser";
+
+export const runtime = "nodejs";
+
+// Extract text and structure from a single uploaded document
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!file || typeof file === "string") {
+      return NextResponse.json(
+        { error: "A file field is required" },
+        { status: 400 }
+      );
+    }
+
+    const document = await parseDocument(
+      file.name,
+      new Uint8Array(await file.arrayBuffer())
+    );
+    return NextResponse.json({ success: true, document });
+  } catch (error) {
+    if (error instanceof DocumentParseError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 422 }
+      );
+    }
+    console.error("Document API Error:", error);
+    return NextResponse.json(
+      { error: "Failed to process your document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { renderExport } from "@/lib/document-export";
+import { exportRequestSchema } from "@/lib/export-request";
+
+// docx and pdf-lib need Node APIs
+export const runtime = "nodejs";
+
+// Render a revised document, summary report or conversation transcript as a
+// Markdown, DOCX, PDF or JSON download
+export async function POST(request: NextRequest) {
+  const body = exportRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!body.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid export request",
+        issues: body.error.issues.map(
+          (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+        ),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const file = await renderExport(body.data);
+    // The plain filename is for older clients; filename* keeps Unicode
+    const asciiName = file.filename.replace(/[^\x20-\x7e]/g, "_");
+    return new NextResponse(Buffer.from(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Export API Error:", error);
+    return NextResponse.json(
+      { error: "Failed to export your document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  extractStructuredData,
+  type UploadedFile,
+} from "@/lib/advanced-ai-orchestrator";
+import { DocumentParseError, parseDocument } from "@/lib/document-parser";
+import { JsonOutputError } from "@/lib/json-output";
+import { ModelUnavailableError } from "@/lib/model-routing";
+import { PromptUnavailableError } from "@/lib/prompt-registry";
+import {
+  ExtractionSchemaError,
+  parseExtractionFields,
+} from "@/lib/structured-extraction";
+
+export const runtime = "nodejs";
+
+const jsonBodySchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  text: z.string().min(1),
+  schema: z.unknown(),
+});
+
+class BadRequestError extends Error {}
+
+// Multipart bodies carry a `file` (or `text`) and the schema as a JSON
+// string; JSON bodies carry `text` and `schema` directly
+async function readExtractionRequest(
+  request: NextRequest
+): Promise<{ document: UploadedFile; schema: unknown }> {
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const body = jsonBodySchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!body.success) {
+      throw new BadRequestError("Body must include text and schema");
+    }
+    return {
+      document: {
+        name: body.data.name || "document.txt",
+        content: body.data.text,
+      },
+      schema: body.data.schema,
+    };
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    throw new BadRequestError(
+      "Request body must be JSON or multipart form data"
+    );
+  }
+  const rawSchema = formData.get("schema");
+  if (typeof rawSchema !== "string" || !rawSchema) {
+    throw new BadRequestError("A schema field is required");
+  }
+  let schema: unknown;
+  try {
+    schema = JSON.parse(rawSchema);
+  } catch {
+    throw new BadRequestError("schema must be valid JSON");
+  }
+
+  const file = formData.get("file");
+  if (file && typeof file !== "string") {
+    const parsed = await parseDocument(
+      file.name,
+      new Uint8Array(await file.arrayBuffer())
+    );
+    return { document: { name: parsed.name, content: parsed.text }, schema };
+  }
+  const text = formData.get("text");
+  if (typeof text !== "string" || !text.trim()) {
+    throw new BadRequestError("A file or text field is required");
+  }
+  return { document: { name: "document.txt", content: text }, schema };
+}
+
+// Extract fields described by a JSON Schema or compact field spec from a
+// document. Every field comes back with a confidence and source span.
+export async function POST(request: NextRequest) {
+  try {
+    const { document, schema } = await readExtractionRequest(request);
+    const fields = parseExtractionFields(schema);
+    const result = await extractStructuredData(document, fields, {
+      signal: request.signal,
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (
+      error instanceof BadRequestError ||
+      error instanceof ExtractionSchemaError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof DocumentParseError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 422 }
+      );
+    }
+    if (error instanceof JsonOutputError) {
+      return NextResponse.json(
+        {
+          error: "The model did not return data matching the schema",
+          issues: error.issues,
+          attempts: error.attempts,
+        },
+        { status: 422 }
+      );
+    }
+    if (
+      error instanceof ModelUnavailableError ||
+      error instanceof PromptUnavailableError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error("Extraction API Error:", error);
+    return NextResponse.json(
+      { error: "Failed to extract data from your document" },
+      { status: 500 }
+    );
+  }
+}
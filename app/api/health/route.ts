@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getConfig } from "@/lib/config";
+import {
+  getModelRoutes,
+  resolveModelRoute,
+  type ModelTask,
+} from "@/lib/model-routing";
+
+export const runtime = "nodejs";
+
+// Report which providers and capabilities are active with the current
+// configuration. Never includes secrets.
+export async function GET() {
+  const config = getConfig();
+  const routes = Object.fromEntries(
+    (Object.keys(getModelRoutes()) as ModelTask[]).map((task) => {
+      const route = resolveModelRoute(task);
+      return [
+        task,
+        route
+          ? {
+              provider: route.config.provider,
+              model: route.config.model,
+              fallback: route.fallback,
+            }
+          : null,
+      ];
+    })
+  );
+  const resolved = Object.values(routes);
+  const chatAvailable = resolved.every((route) => route !== null);
+  const degraded =
+    config.warnings.length > 0 ||
+    resolved.some((route) => route === null || route.fallback);
+
+  return NextResponse.json(
+    {
+      status: !chatAvailable ? "unavailable" : degraded ? "degraded" : "ok",
+      providers: {
+        openai: Boolean(config.openaiApiKey),
+        gemini: Boolean(config.googleApiKey),
+        ollama: Boolean(config.ollama.baseUrl && config.ollama.model),
+      },
+      capabilities: {
+        chat: chatAvailable,
+        embeddings: config.embeddingsEnabled,
+        memory: config.embeddingsEnabled,
+        vectorStore: config.vectorStore.backend,
+        documentParsing: true,
+      },
+      routes,
+      warnings: config.warnings,
+    },
+    { status: chatAvailable ? 200 : 503 }
+  );
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  SessionNotFoundError,
+  appendMessages,
+  clearMessages,
+  getSession,
+  toSessionSummary,
+  updateSession,
+} from "@/lib/session-store";
+import { getUserId } from "@/lib/user-identity";
+import { generateSessionTitle } from "@/lib/session-titles";
+import { suggestedEditSchema } from "@/lib/suggested-edits";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const appendMessagesSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(100).optional(),
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+        createdAt: z.string().datetime().optional(),
+        fileAttached: z.string().optional(),
+        edits: z.array(suggestedEditSchema).optional(),
+        promptVersion: z.string().max(200).optional(),
+      })
+    )
+    .min(1),
+});
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof SessionNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  console.error("Session Messages API Error:", error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getSession(await getUserId(), (await params).id);
+    return NextResponse.json({ success: true, messages: session.messages });
+  } catch (error) {
+    return handleError(error, "Failed to load messages");
+  }
+}
+
+// Append messages; once the first exchange is stored the session gets a
+// generated title unless it already has one
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = await getUserId();
+    const body = await request.json().catch(() => null);
+    const parsed = appendMessagesSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid messages", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    let session = await appendMessages(userId, id, parsed.data.messages);
+    if (!session.titled) {
+      const generated = await generateSessionTitle(session.messages);
+      if (generated) {
+        session = await updateSession(userId, id, {
+          title: generated.title,
+          titlePromptVersion: generated.promptVersion,
+        });
+      }
+    }
+    return NextResponse.json({
+      success: true,
+      session: toSessionSummary(session),
+    });
+  } catch (error) {
+    return handleError(error, "Failed to save messages");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await clearMessages(await getUserId(), (await params).id);
+    return NextResponse.json({
+      success: true,
+      session: toSessionSummary(session),
+    });
+  } catch (error) {
+    return handleError(error, "Failed to clear messages");
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  SessionNotFoundError,
+  deleteSession,
+  getSession,
+  toSessionSummary,
+  updateSession,
+} from "@/lib/session-store";
+import { getUserId } from "@/lib/user-identity";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const updateSessionSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  // null detaches the current document
+  document: z
+    .object({ name: z.string().min(1), text: z.string() })
+    .nullable()
+    .optional(),
+});
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof SessionNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  console.error("Sessions API Error:", error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+// A session with its attached document and full message history
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getSession(await getUserId(), (await params).id);
+    return NextResponse.json({ success: true, session });
+  } catch (error) {
+    return handleError(error, "Failed to load the chat session");
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = updateSessionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid session update", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+    const session = await updateSession(
+      await getUserId(),
+      (await params).id,
+      parsed.data
+    );
+    return NextResponse.json({
+      success: true,
+      session: toSessionSummary(session),
+    });
+  } catch (error) {
+    return handleError(error, "Failed to update the chat session");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await deleteSession(await getUserId(), (await params).id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, "Failed to delete the chat session");
+  }
+}
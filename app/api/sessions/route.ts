@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  createSession,
+  listSessions,
+  toSessionSummary,
+} from "@/lib/session-store";
+import { getUserId } from "@/lib/user-identity";
+
+export const runtime = "nodejs";
+
+const createSessionSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  document: z.object({ name: z.string().min(1), text: z.string() }).optional(),
+});
+
+// List chat sessions, most recently updated first
+export async function GET() {
+  try {
+    const sessions = await listSessions(await getUserId());
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    console.error("Sessions API Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load chat sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = createSessionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid session", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+    const session = await createSession(await getUserId(), parsed.data);
+    return NextResponse.json(
+      { success: true, session: toSessionSummary(session) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Sessions API Error:", error);
+    return NextResponse.json(
+      { error: "Failed to create a chat session" },
+      { status: 500 }
+    );
+  }
+}
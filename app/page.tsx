@@ -2,6 +2,26 @@
 
 import { useState, useRef, useEffect } from "react";
 import styles from "./page.module.css";
+import { readSSE, summaryProgressLabel, type ChatStreamEvent } from "@/lib/sse";
+import type { HistorySummary } from "@/lib/context-budget";
+import type { SummaryProgress } from "@/lib/document-summarizer";
+import type {
+  ChatSessionSummary,
+  ChatSession as StoredChatSession,
+} from "@/lib/session-store";
+import {
+  EXPORT_FORMATS,
+  downloadExport,
+  exportFormatLabels,
+  type ExportFormat,
+  type ExportRequest,
+} from "@/lib/export-request";
+import {
+  applyEdits,
+  isEditCurrent,
+  type EditDecision,
+  type SuggestedEdit,
+} from "@/lib/suggested-edits";
 
 interface Message {
   id: string;
@@ -9,26 +29,266 @@ interface Message {
   content: string;
   timestamp: Date;
   fileAttached?: string;
+  edits?: SuggestedEdit[];
+  editDecisions?: Record<string, EditDecision>;
+  // Set once the accepted edits have been applied to the document
+  editsApplied?: boolean;
+  // Prompt template version behind an assistant reply
+  promptVersion?: string;
 }
 
 interface ChatSession {
   id: string;
   title: string;
   timestamp: Date;
+  documentName?: string;
+}
+
+function toChatSession(summary: ChatSessionSummary): ChatSession {
+  return {
+    id: summary.id,
+    title: summary.title,
+    timestamp: new Date(summary.updatedAt),
+    documentName: summary.documentName,
+  };
+}
+
+async function sessionRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Session request failed");
+  }
+  return data;
+}
+
+interface TrackedChangesProps {
+  text: string;
+  edits: SuggestedEdit[];
+  decisions: Record<string, EditDecision>;
+  applied: boolean;
+  onDecide: (editIds: string[], decision: EditDecision) => void;
+  onApply: () => void;
+  onDownload: () => void;
+}
+
+// Suggested edits shown as tracked changes over the document text
+function TrackedChanges({
+  text,
+  edits,
+  decisions,
+  applied,
+  onDecide,
+  onApply,
+  onDownload,
+}: TrackedChangesProps) {
+  const accepted = edits.filter(
+    (edit) => decisions[edit.id] === "accepted"
+  ).length;
+  if (applied) {
+    return (
+      <div className={styles.trackedChanges}>
+        <div className={styles.trackedSummary}>
+          <span>
+            Applied {accepted} of {edits.length} suggested edits.
+          </span>
+          <button onClick={onDownload} className={styles.trackedButton}>
+            Download revised file
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const current = edits.filter((edit) => isEditCurrent(text, edit));
+  const stale = edits.length - current.length;
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const edit of current) {
+    const decision = decisions[edit.id];
+    segments.push(text.slice(cursor, edit.start));
+    segments.push(
+      <span
+        key={edit.id}
+        className={`${styles.trackedEdit} ${decision ? styles[decision] : ""}`}
+        title={edit.reason}
+      >
+        {edit.original && <del>{edit.original}</del>}
+        {edit.replacement && <ins>{edit.replacement}</ins>}
+        <button
+          onClick={() => onDecide([edit.id], "accepted")}
+          className={styles.trackedAccept}
+          title={`Accept: ${edit.reason}`}
+        >
+          ✓
+        </button>
+        <button
+          onClick={() => onDecide([edit.id], "rejected")}
+          className={styles.trackedReject}
+          title={`Reject: ${edit.reason}`}
+        >
+          ✕
+        </button>
+      </span>
+    );
+    cursor = edit.end;
+  }
+  segments.push(text.slice(cursor));
+
+  return (
+    <div className={styles.trackedChanges}>
+      {current.length > 0 && (
+        <div className={styles.trackedDocument}>{segments}</div>
+      )}
+      {stale > 0 && (
+        <p className={styles.trackedNote}>
+          {stale} of {edits.length} edits no longer match the document.
+        </p>
+      )}
+      {current.length > 0 && (
+        <div className={styles.trackedSummary}>
+          <span>
+            {accepted} of {current.length} accepted
+          </span>
+          <button
+            onClick={() =>
+              onDecide(
+                current.map((edit) => edit.id),
+                "accepted"
+              )
+            }
+            className={styles.trackedButton}
+          >
+            Accept all
+          </button>
+          <button
+            onClick={() =>
+              onDecide(
+                current.map((edit) => edit.id),
+                "rejected"
+              )
+            }
+            className={styles.trackedButton}
+          >
+            Reject all
+          </button>
+          <button
+            onClick={onApply}
+            className={styles.trackedButton}
+            disabled={accepted === 0}
+          >
+            Apply accepted edits
+          </button>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function DocMind() {
   const [input, setInput] = useState("");
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(
+    null
+  );
+  // Set while a long document is condensed before the reply starts
+  const [summaryProgress, setSummaryProgress] =
+    useState<SummaryProgress | null>(null);
+  // Rolling summary of the oldest messages, kept by the server's context
+  // budget and sent back with each request
+  const [historySummary, setHistorySummary] = useState<HistorySummary | null>(
+    null
+  );
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [fileContent, setFileContent] = useState<string>("");
   const [fileName, setFileName] = useState<string>("");
-  const [chatSessions, setChatSessions] = useState<ChatSession[]>([
-    { id: "1", title: "Document Analysis", timestamp: new Date() },
-  ]);
-  const [activeSession, setActiveSession] = useState<string>("1");
+  // Ask for tracked changes to the document instead of a chat reply
+  const [editMode, setEditMode] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("markdown");
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
+  // Sessions are created on the first message or upload, so an empty new
+  // chat has no id yet
+  const [activeSession, setActiveSession] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Keep the sidebar entry for a session in sync, newest first
+  const upsertSession = (summary: ChatSessionSummary) => {
+    setChatSessions((prev) => [
+      toChatSession(summary),
+      ...prev.filter((session) => session.id !== summary.id),
+    ]);
+  };
+
+  const ensureSession = async () => {
+    if (activeSession) return activeSession;
+    const { session } = await sessionRequest<{ session: ChatSessionSummary }>(
+      "/api/sessions",
+      { method: "POST", body: JSON.stringify({}) }
+    );
+    upsertSession(session);
+    setActiveSession(session.id);
+    return session.id;
+  };
+
+  const saveMessages = async (sessionId: string, newMessages: Message[]) => {
+    try {
+      const { session } = await sessionRequest<{
+        session: ChatSessionSummary;
+      }>(`/api/sessions/${sessionId}/messages`, {
+        method: "POST",
+        body: JSON.stringify({
+          messages: newMessages.map((message) => ({
+            id: message.id,
+            role: message.role,
+            content: message.content,
+            createdAt: message.timestamp.toISOString(),
+            fileAttached: message.fileAttached,
+            edits: message.edits,
+            promptVersion: message.promptVersion,
+          })),
+        }),
+      });
+      upsertSession(session);
+    } catch (error) {
+      console.error("Error saving messages:", error);
+    }
+  };
+
+  const loadSession = async (sessionId: string) => {
+    const { session } = await sessionRequest<{ session: StoredChatSession }>(
+      `/api/sessions/${sessionId}`
+    );
+    setActiveSession(session.id);
+    setMessages(
+      session.messages.map((message) => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(message.createdAt),
+        fileAttached: message.fileAttached,
+        edits: message.edits,
+        editDecisions: message.edits ? {} : undefined,
+        promptVersion: message.promptVersion,
+      }))
+    );
+    setFileName(session.document?.name || "");
+    setFileContent(session.document?.text || "");
+  };
+
+  // Restore the most recent session on load
+  useEffect(() => {
+    sessionRequest<{ sessions: ChatSessionSummary[] }>("/api/sessions")
+      .then(({ sessions }) => {
+        setChatSessions(sessions.map(toChatSession));
+        if (sessions.length > 0) return loadSession(sessions[0].id);
+      })
+      .catch((error) => console.error("Error loading sessions:", error));
+  }, []);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -38,31 +298,231 @@ export default function DocMind() {
     scrollToBottom();
   }, [messages]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = "";
     if (!file) return;
 
-    setFileName(file.name);
+    // Text is extracted server-side so PDF and DOCX uploads work too
+    const formData = new FormData();
+    formData.append("file", file);
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const content = event.target?.result as string;
-      setFileContent(content);
-
-      // Add a system message about the uploaded file
-      const fileMessage: Message = {
-        id: Date.now().toString(),
-        role: "assistant",
-        content: `I've received your file "${file.name}". How would you like me to help with this document?`,
-        timestamp: new Date(),
-        fileAttached: file.name,
-      };
+    let reply: string;
+    let sessionId: string | null = activeSession;
+    try {
+      const response = await fetch("/api/documents", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to read the document");
+      }
+      setFileName(file.name);
+      setFileContent(data.document.text);
+      try {
+        sessionId = await ensureSession();
+        const { session } = await sessionRequest<{
+          session: ChatSessionSummary;
+        }>(`/api/sessions/${sessionId}`, {
+          method: "PATCH",
+          body: JSON.stringify({
+            document: { name: file.name, text: data.document.text },
+          }),
+        });
+        upsertSession(session);
+      } catch (error) {
+        console.error("Error saving document to session:", error);
+      }
+      reply = `I've received your file "${file.name}". How would you like me to help with this document?`;
+    } catch (error) {
+      console.error("Upload error:", error);
+      reply = `Sorry, I couldn't read "${file.name}". ${
+        error instanceof Error ? error.message : ""
+      }`.trim();
+    }
 
-      setMessages((prev) => [...prev, fileMessage]);
+    // Add a system message about the uploaded file
+    const fileMessage: Message = {
+      id: Date.now().toString(),
+      role: "assistant",
+      content: reply,
+      timestamp: new Date(),
+      fileAttached: file.name,
     };
-    reader.readAsText(file);
+
+    setMessages((prev) => [...prev, fileMessage]);
+    if (sessionId) await saveMessages(sessionId, [fileMessage]);
+  };
+
+  // Edit mode asks for suggested edits to the document instead of a
+  // streamed reply
+  const requestEdits = async (
+    userMessage: Message,
+    sessionId: string | null
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let reply: Message | null = null;
+
+    try {
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          messages: [
+            ...messages.map((msg) => ({
+              role: msg.role,
+              content: msg.content,
+            })),
+            { role: "user", content: userMessage.content },
+          ],
+          fileContent,
+          historySummary: historySummary || undefined,
+          mode: "edit",
+        }),
+        signal: controller.signal,
+      });
+      const data = await response.json();
+      // A document too long for the edit model is the user's to shorten
+      if (response.status === 413) {
+        reply = {
+          id: (Date.now() + 1).toString(),
+          role: "assistant",
+          content: data.error,
+          timestamp: new Date(),
+        };
+      } else {
+        if (!response.ok || !data.success) {
+          throw new Error(data.error);
+        }
+        setHistorySummary(data.historySummary || null);
+        reply = {
+          id: (Date.now() + 1).toString(),
+          role: "assistant",
+          content: data.message,
+          timestamp: new Date(),
+          edits: data.edits,
+          editDecisions: {},
+          promptVersion: data.promptVersion,
+        };
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Error:", error);
+        reply = {
+          id: (Date.now() + 2).toString(),
+          role: "assistant",
+          content: "Sorry, I couldn't suggest edits. Please try again.",
+          timestamp: new Date(),
+        };
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+
+    const exchange: Message[] = [userMessage];
+    if (reply) {
+      const replyMessage = reply;
+      setMessages((prev) => [...prev, replyMessage]);
+      exchange.push(replyMessage);
+    }
+    if (sessionId) await saveMessages(sessionId, exchange);
+  };
+
+  const decideEdits = (
+    messageId: string,
+    editIds: string[],
+    decision: EditDecision
+  ) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === messageId
+          ? {
+              ...msg,
+              editDecisions: {
+                ...msg.editDecisions,
+                ...Object.fromEntries(editIds.map((id) => [id, decision])),
+              },
+            }
+          : msg
+      )
+    );
+  };
+
+  // Apply a message's accepted edits to the working document and save the
+  // revision as the session document
+  const applyAcceptedEdits = async (message: Message) => {
+    const accepted = (message.edits || []).filter(
+      (edit) => message.editDecisions?.[edit.id] === "accepted"
+    );
+    const revised = applyEdits(fileContent, accepted);
+    setFileContent(revised);
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === message.id ? { ...msg, editsApplied: true } : msg
+      )
+    );
+    if (!activeSession) return;
+    try {
+      const { session } = await sessionRequest<{
+        session: ChatSessionSummary;
+      }>(`/api/sessions/${activeSession}`, {
+        method: "PATCH",
+        body: JSON.stringify({ document: { name: fileName, text: revised } }),
+      });
+      upsertSession(session);
+    } catch (error) {
+      console.error("Error saving revised document:", error);
+    }
+  };
+
+  const runExport = async (request: ExportRequest) => {
+    try {
+      await downloadExport(request);
+    } catch (error) {
+      console.error("Export error:", error);
+    }
+  };
+
+  const exportConversation = () =>
+    runExport({
+      kind: "transcript",
+      format: exportFormat,
+      title: chatSessions.find((session) => session.id === activeSession)
+        ?.title,
+      documentName: fileName || undefined,
+      messages: messages.map((message) => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp.toISOString(),
+        attachments: message.fileAttached ? [message.fileAttached] : undefined,
+      })),
+    });
+
+  const exportLatestReply = () => {
+    const reply = messages.findLast((message) => message.role === "assistant");
+    if (!reply) return;
+    runExport({
+      kind: "summary",
+      format: exportFormat,
+      documentName: fileName || undefined,
+      summary: reply.content,
+    });
   };
 
+  // The working document, including any edits applied to it
+  const exportDocument = () =>
+    runExport({
+      kind: "document",
+      format: exportFormat,
+      name: fileName || "document.txt",
+      text: fileContent,
+    });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -79,6 +539,49 @@ export default function DocMind() {
     setInput("");
     setIsLoading(true);
 
+    let sessionId: string | null = null;
+    try {
+      sessionId = await ensureSession();
+    } catch (error) {
+      console.error("Error creating session:", error);
+    }
+
+    if (editMode && fileContent) {
+      await requestEdits(userMessage, sessionId);
+      return;
+    }
+
+    const assistantId = (Date.now() + 1).toString();
+    const assistantTimestamp = new Date();
+    let assistantContent = "";
+    const appendToAssistant = (token: string) => {
+      assistantContent += token;
+      setMessages((prev) => {
+        if (!prev.some((msg) => msg.id === assistantId)) {
+          return [
+            ...prev,
+            {
+              id: assistantId,
+              role: "assistant",
+              content: token,
+              timestamp: assistantTimestamp,
+            },
+          ];
+        }
+        return prev.map((msg) =>
+          msg.id === assistantId
+            ? { ...msg, content: msg.content + token }
+            : msg
+        );
+      });
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let receivedTokens = false;
+    let promptVersion: string | undefined;
+    let errorMessage: Message | null = null;
+
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
@@ -94,52 +597,134 @@ export default function DocMind() {
             { role: "user", content: input },
           ],
           fileContent: fileContent || undefined,
+          fileName: fileName || undefined,
+          historySummary: historySummary || undefined,
+          stream: true,
         }),
+        signal: controller.signal,
       });
 
-      const data = await response.json();
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error);
+      }
 
-      if (data.success) {
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
+      await readSSE<ChatStreamEvent>(response, (event) => {
+        if (event.type === "summary_progress") {
+          setSummaryProgress(event);
+        } else if (event.type === "context") {
+          promptVersion = event.promptVersion;
+          setHistorySummary(event.historySummary || null);
+        } else if (event.type === "token") {
+          if (!receivedTokens) {
+            receivedTokens = true;
+            setStreamingMessageId(assistantId);
+          }
+          appendToAssistant(event.content);
+        } else if (event.type === "error") {
+          throw new Error(event.error);
+        }
+      });
+
+      if (!receivedTokens) {
+        appendToAssistant("Sorry, I couldn't generate a response.");
+      }
+    } catch (error) {
+      // Stopping keeps whatever was streamed so far
+      if (!controller.signal.aborted) {
+        console.error("Error:", error);
+        const failure: Message = {
+          id: (Date.now() + 2).toString(),
           role: "assistant",
-          content: data.message,
+          content: "Sorry, I encountered an error. Please try again.",
           timestamp: new Date(),
         };
-        setMessages((prev) => [...prev, assistantMessage]);
-      } else {
-        throw new Error(data.error);
+        errorMessage = failure;
+        setMessages((prev) => [...prev, failure]);
       }
-    } catch (error) {
-      console.error("Error:", error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: "Sorry, I encountered an error. Please try again.",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
+      setSummaryProgress(null);
       setIsLoading(false);
     }
+
+    // Store the exchange as it was shown, including a partial answer
+    if (sessionId) {
+      const exchange: Message[] = [userMessage];
+      if (assistantContent) {
+        exchange.push({
+          id: assistantId,
+          role: "assistant",
+          content: assistantContent,
+          timestamp: assistantTimestamp,
+          promptVersion,
+        });
+      }
+      if (errorMessage) exchange.push(errorMessage);
+      await saveMessages(sessionId, exchange);
+    }
+  };
+
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
   };
 
-  const clearChat = () => {
+  const resetChat = () => {
+    stopGenerating();
     setMessages([]);
+    setHistorySummary(null);
     setFileContent("");
     setFileName("");
   };
 
+  // Clears the current session's messages and document but keeps the session
+  const clearChat = async () => {
+    resetChat();
+    if (!activeSession) return;
+    try {
+      await sessionRequest(`/api/sessions/${activeSession}/messages`, {
+        method: "DELETE",
+      });
+      const { session } = await sessionRequest<{
+        session: ChatSessionSummary;
+      }>(`/api/sessions/${activeSession}`, {
+        method: "PATCH",
+        body: JSON.stringify({ document: null }),
+      });
+      upsertSession(session);
+    } catch (error) {
+      console.error("Error clearing session:", error);
+    }
+  };
+
   const createNewChat = () => {
-    const newId = (chatSessions.length + 1).toString();
-    const newSession: ChatSession = {
-      id: newId,
-      title: "New Chat",
-      timestamp: new Date(),
-    };
-    setChatSessions((prev) => [newSession, ...prev]);
-    setActiveSession(newId);
-    clearChat();
+    resetChat();
+    setActiveSession(null);
+  };
+
+  const selectSession = async (sessionId: string) => {
+    setSidebarOpen(false);
+    if (sessionId === activeSession) return;
+    resetChat();
+    try {
+      await loadSession(sessionId);
+    } catch (error) {
+      console.error("Error loading session:", error);
+      setActiveSession(null);
+    }
+  };
+
+  const deleteChatSession = async (sessionId: string) => {
+    try {
+      await sessionRequest(`/api/sessions/${sessionId}`, { method: "DELETE" });
+      setChatSessions((prev) =>
+        prev.filter((session) => session.id !== sessionId)
+      );
+      if (sessionId === activeSession) createNewChat();
+    } catch (error) {
+      console.error("Error deleting session:", error);
+    }
   };
 
   const documentExamples = [
@@ -151,6 +736,12 @@ export default function DocMind() {
     "Suggest improvements for this document",
   ];
 
+  // Examples that read best as tracked changes
+  const editExamples = new Set([
+    "Identify any grammatical errors in this text",
+    "Rewrite this content to be more professional",
+  ]);
+
   // Function to get a random color from our theme
   const getRandomColor = () => {
     const colors = ["purple", "red", "orange", "blue", "green", "yellow"];
@@ -183,15 +774,27 @@ export default function DocMind() {
               className={`${styles.chatSession} ${
                 activeSession === session.id ? styles.activeSession : ""
               }`}
-              onClick={() => setActiveSession(session.id)}
+              onClick={() => selectSession(session.id)}
             >
-              <span className={styles.sessionIcon}>💬</span>
+              <span className={styles.sessionIcon}>
+                {session.documentName ? "📄" : "💬"}
+              </span>
               <div className={styles.sessionInfo}>
                 <span className={styles.sessionTitle}>{session.title}</span>
                 <span className={styles.sessionTime}>
                   {session.timestamp.toLocaleDateString()}
                 </span>
               </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteChatSession(session.id);
+                }}
+                className={styles.deleteSessionButton}
+                title="Delete chat"
+              >
+                ✕
+              </button>
             </div>
           ))}
         </div>
@@ -206,7 +809,7 @@ export default function DocMind() {
               type="file"
               onChange={handleFileUpload}
               className={styles.fileInput}
-              accept=".txt,.pdf,.doc,.docx,.md"
+              accept=".txt,.pdf,.docx,.md,.markdown"
             />
             {fileName && (
               <div className={styles.fileName}>
@@ -231,6 +834,46 @@ export default function DocMind() {
             <span className={styles.logoIcon}>🧠</span>
             <span>DocMind</span>
           </div>
+          <div className={styles.exportControls}>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className={styles.exportSelect}
+              title="Export format"
+            >
+              {EXPORT_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {exportFormatLabels[format]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={exportConversation}
+              className={styles.exportButton}
+              disabled={messages.length === 0}
+              title="Download this conversation"
+            >
+              ⬇ Chat
+            </button>
+            <button
+              onClick={exportLatestReply}
+              className={styles.exportButton}
+              disabled={
+                !messages.some((message) => message.role === "assistant")
+              }
+              title="Download the latest reply as a report"
+            >
+              ⬇ Report
+            </button>
+            <button
+              onClick={exportDocument}
+              className={styles.exportButton}
+              disabled={!fileContent}
+              title="Download the document, including applied edits"
+            >
+              ⬇ Document
+            </button>
+          </div>
           <button
             onClick={clearChat}
             className={styles.clearButton}
@@ -263,7 +906,12 @@ export default function DocMind() {
                     return (
                       <button
                         key={index}
-                        onClick={() => setInput(example)}
+                        onClick={() => {
+                          setInput(example);
+                          setEditMode(
+                            Boolean(fileContent) && editExamples.has(example)
+                          );
+                        }}
                         className={`${styles.exampleButton} ${styles[colorClass]}`}
                       >
                         {example}
@@ -289,7 +937,25 @@ export default function DocMind() {
                         📎 {message.fileAttached}
                       </div>
                     )}
-                    <div className={styles.messageText}>{message.content}</div>
+                    <div className={styles.messageText}>
+                      {message.content}
+                      {streamingMessageId === message.id && (
+                        <span className={styles.streamingCursor}>▍</span>
+                      )}
+                    </div>
+                    {message.edits && message.edits.length > 0 && (
+                      <TrackedChanges
+                        text={fileContent}
+                        edits={message.edits}
+                        decisions={message.editDecisions || {}}
+                        applied={Boolean(message.editsApplied)}
+                        onDecide={(editIds, decision) =>
+                          decideEdits(message.id, editIds, decision)
+                        }
+                        onApply={() => applyAcceptedEdits(message)}
+                        onDownload={exportDocument}
+                      />
+                    )}
                     <div className={styles.messageTime}>
                       {message.timestamp.toLocaleTimeString([], {
                         hour: "2-digit",
@@ -299,12 +965,16 @@ export default function DocMind() {
                   </div>
                 </div>
               ))}
-              {isLoading && (
+              {isLoading && !streamingMessageId && (
                 <div className={`${styles.message} ${styles.assistant}`}>
                   <div className={styles.messageAvatar}>🤖</div>
                   <div className={styles.messageContent}>
                     <div className={styles.typingIndicator}>
-                      <span>DocMind is thinking</span>
+                      <span>
+                        {summaryProgress
+                          ? summaryProgressLabel(summaryProgress)
+                          : "DocMind is thinking"}
+                      </span>
                       <div className={styles.typingDots}>
                         <span></span>
                         <span></span>
@@ -333,29 +1003,59 @@ export default function DocMind() {
                   type="file"
                   onChange={handleFileUpload}
                   className={styles.fileInput}
-                  accept=".txt,.pdf,.doc,.docx,.md"
+                  accept=".txt,.pdf,.docx,.md,.markdown"
                 />
               </label>
+              <button
+                type="button"
+                onClick={() => setEditMode((enabled) => !enabled)}
+                className={`${styles.editModeButton} ${
+                  editMode && fileContent ? styles.editModeActive : ""
+                }`}
+                disabled={!fileContent}
+                title={
+                  fileContent
+                    ? "Suggest edits as tracked changes"
+                    : "Attach a document to suggest edits"
+                }
+              >
+                ✏️
+              </button>
               <input
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                placeholder="Message DocMind..."
+                placeholder={
+                  editMode && fileContent
+                    ? "Describe the edits you want..."
+                    : "Message DocMind..."
+                }
                 className={styles.input}
                 disabled={isLoading}
               />
-              <button
-                type="submit"
-                disabled={!input.trim() || isLoading}
-                className={styles.sendButton}
-              >
-                {isLoading ? "⏳" : "🚀"}
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopGenerating}
+                  className={styles.sendButton}
+                  title="Stop generating"
+                >
+                  ⏹
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className={styles.sendButton}
+                >
+                  🚀
+                </button>
+              )}
             </div>
             <div className={styles.helpText}>
               {fileName ? (
                 <p>
-                  Working with:{" "}
+                  {editMode ? "Suggesting edits to" : "Working with"}:{" "}
                   <span className={styles.fileNameText}>{fileName}</span>
                 </p>
               ) : (
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  MAX_REVISIONS,
+  MIN_GROUNDEDNESS,
+  bestPass,
+  groundednessScore,
+  needsRevision,
+  type ClaimCheck,
+  type ClaimVerdict,
+  type Verification,
+} from "./answer-verification";
+
+function claims(...verdicts: ClaimVerdict[]): ClaimCheck[] {
+  return verdicts.map((verdict, index) => ({
+    claim: `Claim ${index + 1}`,
+    verdict,
+    sources: verdict === "unsupported" ? [] : [1],
+  }));
+}
+
+function verification(changes: Partial<Verification> = {}): Verification {
+  const checked = changes.claims ?? claims("supported", "unsupported");
+  const groundedness = groundednessScore(checked);
+  return {
+    groundedness,
+    claims: checked,
+    revisions: 0,
+    scores: [groundedness],
+    kept: 0,
+    step: 0,
+    ...changes,
+  };
+}
+
+describe("groundednessScore", () => {
+  test("scores an answer without claims as grounded", () => {
+    assert.equal(groundednessScore([]), 1);
+  });
+
+  test("counts partly supported claims as half", () => {
+    assert.equal(groundednessScore(claims("supported", "partial")), 0.75);
+    assert.equal(
+      groundednessScore(claims("partial", "unsupported", "unsupported")),
+      0.5 / 3
+    );
+    assert.equal(groundednessScore(claims("unsupported")), 0);
+  });
+});
+
+describe("needsRevision", () => {
+  test("does not revise without a check", () => {
+    assert.equal(needsRevision(undefined), false);
+  });
+
+  test("revises a poorly grounded answer", () => {
+    assert.equal(needsRevision(verification()), true);
+  });
+
+  test("keeps an answer at the minimum score", () => {
+    assert.equal(
+      needsRevision(verification({ groundedness: MIN_GROUNDEDNESS })),
+      false
+    );
+  });
+
+  test("stops after the last revision or a failed one", () => {
+    assert.equal(
+      needsRevision(verification({ revisions: MAX_REVISIONS })),
+      false
+    );
+    assert.equal(
+      needsRevision(verification({ revisionError: "Could not revise" })),
+      false
+    );
+  });
+
+  test("does not revise when no claim is flagged", () => {
+    // A low score with every claim supported cannot be improved by revising
+    assert.equal(
+      needsRevision(
+        verification({ groundedness: 0, claims: claims("supported") })
+      ),
+      false
+    );
+  });
+});
+
+describe("bestPass", () => {
+  test("picks the highest score", () => {
+    assert.equal(bestPass([0.5, 0.9, 0.7]), 1);
+  });
+
+  test("keeps the earliest pass on ties", () => {
+    assert.equal(bestPass([0.5, 0.5]), 0);
+    assert.equal(bestPass([0.5]), 0);
+  });
+});
@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+// Checking an answer against the sources it was written from. A model splits
+// the answer into factual claims and judges each against the numbered
+// sources; the groundedness score is the share of claims the sources back,
+// counting partly supported claims as half. A low score sends the answer back
+// for revision a bounded number of times; a revision scoring below an earlier
+// pass is dropped.
+
+export const CLAIM_VERDICTS = ["supported", "partial", "unsupported"] as const;
+export type ClaimVerdict = (typeof CLAIM_VERDICTS)[number];
+
+export const claimCheckSchema = z.object({
+  claim: z.string(),
+  verdict: z.enum(CLAIM_VERDICTS),
+  // Markers of the sources that back the claim
+  sources: z.array(z.number().int().positive()).default([]),
+  explanation: z.string().optional(),
+});
+
+export type ClaimCheck = z.infer<typeof claimCheckSchema>;
+
+export const MAX_CHECKED_CLAIMS = 20;
+
+// The verifier's reply
+export const claimChecksReplySchema = z.object({
+  claims: z.array(claimCheckSchema).max(MAX_CHECKED_CLAIMS),
+});
+
+export const verificationSchema = z.object({
+  // 0 to 1; 1 when the answer makes no factual claims
+  groundedness: z.number().min(0).max(1),
+  claims: z.array(claimCheckSchema),
+  // Revisions made so far, and the score of each pass, the draft's first
+  revisions: z.number().int().nonnegative(),
+  scores: z.array(z.number().min(0).max(1)),
+  // Pass whose answer is kept: the best scoring, the earliest on ties
+  kept: z.number().int().nonnegative(),
+  // Plan step of the checked answer
+  step: z.number().int().nonnegative(),
+  // Set when revising failed, which ends the loop
+  revisionError: z.string().optional(),
+});
+
+export type Verification = z.infer<typeof verificationSchema>;
+
+// Answers scoring below this are revised
+export const MIN_GROUNDEDNESS = 0.8;
+export const MAX_REVISIONS = 2;
+
+const verdictWeights: Record<ClaimVerdict, number> = {
+  supported: 1,
+  partial: 0.5,
+  unsupported: 0,
+};
+
+export function groundednessScore(claims: ClaimCheck[]) {
+  if (claims.length === 0) return 1;
+  const total = claims.reduce(
+    (sum, claim) => sum + verdictWeights[claim.verdict],
+    0
+  );
+  return total / claims.length;
+}
+
+// The best-scoring pass, the earliest on ties
+export function bestPass(scores: number[]) {
+  return scores.reduce(
+    (best, score, index) => (score > scores[best] ? index : best),
+    0
+  );
+}
+
+export function flaggedClaims(verification: Verification) {
+  return verification.claims.filter((claim) => claim.verdict !== "supported");
+}
+
+export function needsRevision(verification?: Verification) {
+  return (
+    verification !== undefined &&
+    !verification.revisionError &&
+    verification.groundedness < MIN_GROUNDEDNESS &&
+    verification.revisions < MAX_REVISIONS &&
+    flaggedClaims(verification).length > 0
+  );
+}
+
+// The flagged claims as a list for the revision prompt
+export function describeFlaggedClaims(verification: Verification) {
+  return flaggedClaims(verification)
+    .map(
+      (claim) =>
+        `- "${claim.claim}" (${claim.verdict}${
+          claim.explanation ? `: ${claim.explanation}` : ""
+        })`
+    )
+    .join("\n");
+}
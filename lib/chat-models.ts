@@ -0,0 +1,346 @@
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclarationSchema,
+  type Part,
+} from "@google/generative-ai";
+import { ChatOllama } from "@langchain/community/chat_models/ollama";
+import { ChatOpenAI } from "@langchain/openai";
+import {
+  AIMessage,
+  ToolMessage,
+  coerceMessageLikeToMessage,
+  type BaseMessage,
+  type BaseMessageLike,
+} from "@langchain/core/messages";
+import type { JSONSchema } from "@langchain/core/utils/json_schema";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { v4 as uuidv4 } from "uuid";
+import { contextWindowFor } from "./token-count";
+
+// One chat-model interface over every provider we use. Handlers pass
+// LangChain messages (or {role, content} objects) and get plain text back,
+// whole or as a stream of tokens.
+
+export type ChatProvider = "openai" | "gemini" | "ollama" | "openai-compatible";
+
+export interface ModelConfig {
+  provider: ChatProvider;
+  // Ollama routes fall back to OLLAMA_MODEL (see model-routing.ts)
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Prompt plus reply, in tokens; known models have a default (see
+  // token-count.ts) and Ollama models are run with this num_ctx
+  contextWindow?: number;
+  // Endpoint for ollama (falls back to OLLAMA_BASE_URL) and openai-compatible
+  baseUrl?: string;
+  // Name of the environment variable holding the API key, so keys never
+  // live in the routing config
+  apiKeyEnv?: string;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+}
+
+// A function the model may call, with its arguments as JSON Schema
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolReply {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+export interface ChatModel {
+  readonly provider: ChatProvider;
+  readonly model: string;
+  readonly contextWindow: number;
+  readonly maxOutputTokens?: number;
+  invoke(
+    messages: BaseMessageLike[],
+    options?: GenerateOptions
+  ): Promise<string>;
+  stream(
+    messages: BaseMessageLike[],
+    options?: GenerateOptions
+  ): AsyncGenerator<string>;
+  // Only on providers with function calling. Earlier calls go back to the
+  // model as AIMessage tool_calls followed by a ToolMessage for each result.
+  invokeWithTools?(
+    messages: BaseMessageLike[],
+    tools: ToolSpec[],
+    options?: GenerateOptions
+  ): Promise<ToolReply>;
+}
+
+const defaultApiKeyEnv: Record<ChatProvider, string | undefined> = {
+  openai: "OPENAI_API_KEY",
+  gemini: "GOOGLE_API_KEY",
+  ollama: undefined,
+  "openai-compatible": "OPENAI_COMPATIBLE_API_KEY",
+};
+
+function readApiKey(config: ModelConfig) {
+  const envName = config.apiKeyEnv || defaultApiKeyEnv[config.provider];
+  return envName ? process.env[envName] : undefined;
+}
+
+function messageText(message: BaseMessage) {
+  return typeof message.content === "string"
+    ? message.content
+    : message.content
+        .map((part) => ("text" in part ? String(part.text) : ""))
+        .join("");
+}
+
+// What each provider implements; the limits are added from the config
+type ProviderModel = Omit<ChatModel, "contextWindow" | "maxOutputTokens">;
+
+// Wrap a LangChain chat model (OpenAI, OpenAI-compatible, Ollama)
+function fromLangChain(
+  provider: ChatProvider,
+  model: string,
+  chatModel: BaseChatModel
+): ProviderModel {
+  return {
+    provider,
+    model,
+    async invoke(messages, options = {}) {
+      const response = await chatModel.invoke(messages, {
+        signal: options.signal,
+      });
+      return messageText(response);
+    },
+    async *stream(messages, options = {}) {
+      const stream = await chatModel.stream(messages, {
+        signal: options.signal,
+      });
+      for await (const chunk of stream) {
+        const token = messageText(chunk);
+        if (token) yield token;
+      }
+    },
+    ...(chatModel.bindTools && {
+      async invokeWithTools(messages, tools, options = {}) {
+        const response = await chatModel.bindTools!(
+          tools.map((tool) => ({ type: "function" as const, function: tool }))
+        ).invoke(messages, { signal: options.signal });
+        return {
+          text: messageText(response),
+          toolCalls: (response.tool_calls ?? []).map((call) => ({
+            id: call.id || `call_${uuidv4()}`,
+            name: call.name,
+            args: call.args,
+          })),
+        };
+      },
+    }),
+  };
+}
+
+// Gemini takes a subset of JSON Schema: no $schema, additionalProperties or
+// defaults
+function toGeminiSchema(schema: JSONSchema): FunctionDeclarationSchema {
+  const supported = ["type", "description", "enum", "format", "required"];
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (supported.includes(key)) {
+      converted[key] = value;
+    } else if (key === "items") {
+      converted.items = toGeminiSchema(value as JSONSchema);
+    } else if (key === "properties") {
+      converted.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JSONSchema>).map(
+          ([name, property]) => [name, toGeminiSchema(property)]
+        )
+      );
+    }
+  }
+  return converted as unknown as FunctionDeclarationSchema;
+}
+
+function geminiParts(message: BaseMessage): Part[] {
+  const text = messageText(message);
+  if (message instanceof ToolMessage) {
+    return [
+      {
+        functionResponse: {
+          name: message.name ?? "",
+          response: { result: text },
+        },
+      },
+    ];
+  }
+  const calls =
+    message instanceof AIMessage
+      ? (message.tool_calls ?? []).map((call) => ({
+          functionCall: { name: call.name, args: call.args },
+        }))
+      : [];
+  return [...(text ? [{ text }] : []), ...calls];
+}
+
+// Gemini goes through Google's SDK: system messages become the system
+// instruction and assistant turns use the "model" role
+function createGeminiModel(config: ModelConfig, model: string): ProviderModel {
+  const apiKey = readApiKey(config);
+  if (!apiKey) {
+    throw new Error(
+      `${config.apiKeyEnv || "GOOGLE_API_KEY"} is required for Gemini models`
+    );
+  }
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const prepare = (messages: BaseMessageLike[], tools: ToolSpec[] = []) => {
+    const system: string[] = [];
+    const contents: Content[] = [];
+    for (const message of messages.map(coerceMessageLikeToMessage)) {
+      const type = message.getType();
+      if (type === "system") {
+        system.push(messageText(message));
+      } else {
+        contents.push({
+          role: type === "ai" ? "model" : type === "tool" ? "function" : "user",
+          parts: geminiParts(message),
+        });
+      }
+    }
+    const generativeModel = genAI.getGenerativeModel({
+      model,
+      systemInstruction: system.length > 0 ? system.join("\n\n") : undefined,
+      tools:
+        tools.length > 0
+          ? [
+              {
+                functionDeclarations: tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: toGeminiSchema(tool.parameters),
+                })),
+              },
+            ]
+          : undefined,
+      generationConfig: {
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens,
+      },
+    });
+    return { generativeModel, contents };
+  };
+
+  return {
+    provider: "gemini",
+    model,
+    async invoke(messages, options = {}) {
+      const { generativeModel, contents } = prepare(messages);
+      const result = await generativeModel.generateContent(
+        { contents },
+        { signal: options.signal }
+      );
+      return result.response.text();
+    },
+    async *stream(messages, options = {}) {
+      const { generativeModel, contents } = prepare(messages);
+      const result = await generativeModel.generateContentStream(
+        { contents },
+        { signal: options.signal }
+      );
+      for await (const chunk of result.stream) {
+        const token = chunk.text();
+        if (token) yield token;
+      }
+    },
+    async invokeWithTools(messages, tools, options = {}) {
+      const { generativeModel, contents } = prepare(messages, tools);
+      const result = await generativeModel.generateContent(
+        { contents },
+        { signal: options.signal }
+      );
+      // Gemini does not give its calls ids, so they are made up here
+      const calls = result.response.functionCalls() ?? [];
+      return {
+        text: calls.length > 0 ? "" : result.response.text(),
+        toolCalls: calls.map((call) => ({
+          id: `call_${uuidv4()}`,
+          name: call.name,
+          args: (call.args ?? {}) as Record<string, unknown>,
+        })),
+      };
+    },
+  };
+}
+
+export function createChatModel(config: ModelConfig): ChatModel {
+  return {
+    ...createProviderModel(config),
+    contextWindow: contextWindowFor(config),
+    maxOutputTokens: config.maxTokens,
+  };
+}
+
+function createProviderModel(config: ModelConfig): ProviderModel {
+  switch (config.provider) {
+    case "gemini": {
+      if (!config.model) throw new Error("Gemini models need a model name");
+      return createGeminiModel(config, config.model);
+    }
+    case "ollama": {
+      const model = config.model;
+      if (!model) throw new Error("Ollama models need a model name");
+      return fromLangChain(
+        "ollama",
+        model,
+        new ChatOllama({
+          baseUrl: config.baseUrl,
+          model,
+          temperature: config.temperature,
+          numPredict: config.maxTokens,
+          numCtx: config.contextWindow,
+        })
+      );
+    }
+    case "openai":
+    case "openai-compatible": {
+      if (!config.model) {
+        throw new Error(`${config.provider} models need a model name`);
+      }
+      if (config.provider === "openai-compatible" && !config.baseUrl) {
+        throw new Error("openai-compatible models need a baseUrl");
+      }
+      const apiKey = readApiKey(config);
+      if (!apiKey) {
+        throw new Error(
+          `${
+            config.apiKeyEnv || defaultApiKeyEnv[config.provider]
+          } is required for ${config.provider} models`
+        );
+      }
+      return fromLangChain(
+        config.provider,
+        config.model,
+        new ChatOpenAI({
+          model: config.model,
+          apiKey,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          // Without it stream() returns the whole reply as one chunk
+          streaming: true,
+          configuration: config.baseUrl
+            ? { baseURL: config.baseUrl }
+            : undefined,
+        })
+      );
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { z } from "zod";
+import type { DocumentChunk } from "./document-chunker";
+import type { VectorMatch } from "./vector-store";
+
+// Retrieved context is numbered for the prompt ("[1]", "[2]", ...) and the
+// model cites those numbers inline. Each number maps back to a source with a
+// stable id, so the same passage gets the same id across requests whether it
+// came from this upload or from memory.
+
+export type SourceKind = "document" | "memory";
+
+export interface ContextSource {
+  // "<filename>#<chunkIndex>@<start>-<end>" for document chunks,
+  // "memory:<vector id>" for earlier answers
+  id: string;
+  kind: SourceKind;
+  filename?: string;
+  chunkIndex?: number;
+  start?: number;
+  end?: number;
+  heading?: string;
+  text: string;
+}
+
+export interface Citation extends ContextSource {
+  // The n of the "[n]" markers in the answer
+  marker: number;
+}
+
+export const contextSourceSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["document", "memory"]),
+  filename: z.string().optional(),
+  chunkIndex: z.number().optional(),
+  start: z.number().optional(),
+  end: z.number().optional(),
+  heading: z.string().optional(),
+  text: z.string(),
+});
+
+export const citationSchema = contextSourceSchema.extend({
+  marker: z.number(),
+});
+
+export const CITATION_INSTRUCTIONS =
+  "Cite the numbered sources you rely on with their markers, e.g. [1] or [2][3], right after the sentence they support. Only cite sources listed above and do not invent markers.";
+
+const markerPattern = /\[(\d+)\]/g;
+
+export function documentSourceId(
+  filename: string,
+  chunkIndex: number,
+  start: number,
+  end: number
+) {
+  return `${filename}#${chunkIndex}@${start}-${end}`;
+}
+
+export function sourceFromChunk(chunk: DocumentChunk): ContextSource {
+  return {
+    id: documentSourceId(
+      chunk.filename,
+      chunk.chunkIndex,
+      chunk.start,
+      chunk.end
+    ),
+    kind: "document",
+    filename: chunk.filename,
+    chunkIndex: chunk.chunkIndex,
+    start: chunk.start,
+    end: chunk.end,
+    heading: chunk.heading,
+    text: chunk.text,
+  };
+}
+
+// Stored document chunks keep their file position in metadata; anything
+// else in memory is an earlier answer
+export function sourceFromMemory(match: VectorMatch): ContextSource | null {
+  const { metadata } = match;
+  const content = metadata.fullContent || metadata.content;
+  if (typeof content !== "string" || !content) return null;
+  const { filename, chunkIndex, start, end, heading } = metadata;
+  if (
+    typeof filename === "string" &&
+    typeof chunkIndex === "number" &&
+    typeof start === "number" &&
+    typeof end === "number"
+  ) {
+    return {
+      id: documentSourceId(filename, chunkIndex, start, end),
+      kind: "document",
+      filename,
+      chunkIndex,
+      start,
+      end,
+      heading: typeof heading === "string" ? heading : undefined,
+      text: content,
+    };
+  }
+  return { id: `memory:${match.id}`, kind: "memory", text: content };
+}
+
+// Drop later duplicates of the same passage
+export function dedupeSources(sources: ContextSource[]) {
+  const seen = new Set<string>();
+  return sources.filter((source) => {
+    if (seen.has(source.id)) return false;
+    seen.add(source.id);
+    return true;
+  });
+}
+
+export function describeSource(source: ContextSource) {
+  if (source.kind === "memory") return "Earlier answer";
+  const section = source.heading ? `, section "${source.heading}"` : "";
+  return `File: ${source.filename} (chunk ${(source.chunkIndex ?? 0) + 1}, characters ${source.start}-${source.end}${section})`;
+}
+
+// Format sources for a prompt. Markers are positions in `numbered`, so a
+// prompt can show a subset while keeping every source's number.
+export function formatSources(
+  sources: ContextSource[],
+  numbered: ContextSource[] = sources
+) {
+  return sources
+    .map((source) => {
+      const marker = numbered.indexOf(source) + 1;
+      return `[${marker}] ${describeSource(source)}\nContent: ${source.text}`;
+    })
+    .join("\n\n");
+}
+
+// The sources an answer actually cites, in marker order. Markers that do
+// not match a source are ignored.
+export function extractCitations(
+  response: string,
+  sources: ContextSource[]
+): Citation[] {
+  const markers = new Set<number>();
+  for (const match of response.matchAll(markerPattern)) {
+    const marker = Number(match[1]);
+    if (marker >= 1 && marker <= sources.length) markers.add(marker);
+  }
+  return Array.from(markers)
+    .sort((a, b) => a - b)
+    .map((marker) => ({ ...sources[marker - 1], marker }));
+}
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import type { ModelConfig } from "./chat-models";
+import type { VectorStoreBackend } from "./vector-store";
+
+// Environment configuration, validated with zod the first time it is needed
+// rather than at import. Missing or invalid values never throw: they switch
+// the matching capability off and are listed in `warnings`.
+
+const optionalString = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim() ? value.trim() : undefined,
+  z.string().optional()
+);
+
+const envSchema = z.object({
+  OPENAI_API_KEY: optionalString,
+  GOOGLE_API_KEY: optionalString,
+  OLLAMA_BASE_URL: optionalString.pipe(z.string().url().optional()),
+  OLLAMA_MODEL: optionalString,
+  PINECONE_API_KEY: optionalString,
+  PINECONE_INDEX: optionalString,
+  VECTOR_STORE: optionalString.pipe(z.enum(["pinecone", "local"]).optional()),
+  LOCAL_VECTOR_STORE_PATH: optionalString,
+  MODEL_ROUTES_PATH: optionalString,
+  PROMPTS_PATH: optionalString,
+  SESSION_STORE_PATH: optionalString,
+});
+
+type Env = z.infer<typeof envSchema>;
+
+export interface AppConfig {
+  openaiApiKey?: string;
+  googleApiKey?: string;
+  ollama: { baseUrl?: string; model?: string };
+  pinecone: { apiKey?: string; indexName?: string };
+  vectorStore: { backend: VectorStoreBackend; localPath?: string };
+  modelRoutesPath?: string;
+  promptsPath?: string;
+  sessionStorePath?: string;
+  // Embeddings (and so memory search and chunk ranking) need OpenAI
+  embeddingsEnabled: boolean;
+  warnings: string[];
+}
+
+// Validate each variable on its own so one bad value only disables its
+// own capability
+function readEnv(warnings: string[]): Env {
+  const env: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries(envSchema.shape)) {
+    const parsed = schema.safeParse(process.env[key]);
+    if (parsed.success) {
+      env[key] = parsed.data;
+    } else {
+      warnings.push(
+        `${key} is invalid (${parsed.error.issues[0]?.message}); ignoring it`
+      );
+    }
+  }
+  return env as Env;
+}
+
+function buildConfig(): AppConfig {
+  const warnings: string[] = [];
+  const env = readEnv(warnings);
+
+  const pineconeConfigured = Boolean(
+    env.PINECONE_API_KEY && env.PINECONE_INDEX
+  );
+  let backend: VectorStoreBackend =
+    env.VECTOR_STORE || (pineconeConfigured ? "pinecone" : "local");
+  if (backend === "pinecone" && !pineconeConfigured) {
+    warnings.push(
+      "VECTOR_STORE is pinecone but PINECONE_API_KEY or PINECONE_INDEX is missing; using the local vector store"
+    );
+    backend = "local";
+  }
+
+  if (!env.OPENAI_API_KEY) {
+    warnings.push(
+      "OPENAI_API_KEY is missing; memory search and document ranking are disabled"
+    );
+  }
+
+  return {
+    openaiApiKey: env.OPENAI_API_KEY,
+    googleApiKey: env.GOOGLE_API_KEY,
+    ollama: { baseUrl: env.OLLAMA_BASE_URL, model: env.OLLAMA_MODEL },
+    pinecone: { apiKey: env.PINECONE_API_KEY, indexName: env.PINECONE_INDEX },
+    vectorStore: { backend, localPath: env.LOCAL_VECTOR_STORE_PATH },
+    modelRoutesPath: env.MODEL_ROUTES_PATH,
+    promptsPath: env.PROMPTS_PATH,
+    sessionStorePath: env.SESSION_STORE_PATH,
+    embeddingsEnabled: Boolean(env.OPENAI_API_KEY),
+    warnings,
+  };
+}
+
+let config: AppConfig | undefined;
+
+export function getConfig(): AppConfig {
+  config ??= buildConfig();
+  return config;
+}
+
+// Whether a routed model can actually be created with the current settings
+export function isModelAvailable(model: ModelConfig): boolean {
+  const current = getConfig();
+  const apiKey = (fallback?: string) =>
+    model.apiKeyEnv ? process.env[model.apiKeyEnv] : fallback;
+  switch (model.provider) {
+    case "openai":
+      return Boolean(model.model && apiKey(current.openaiApiKey));
+    case "gemini":
+      return Boolean(model.model && apiKey(current.googleApiKey));
+    case "ollama":
+      return Boolean(
+        (model.baseUrl || current.ollama.baseUrl) &&
+        (model.model || current.ollama.model)
+      );
+    case "openai-compatible":
+      return Boolean(
+        model.baseUrl &&
+        model.model &&
+        apiKey(process.env.OPENAI_COMPATIBLE_API_KEY)
+      );
+  }
+}
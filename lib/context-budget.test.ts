@@ -0,0 +1,191 @@
+import type { BaseMessageLike } from "@langchain/core/messages";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ChatModel } from "./chat-models";
+import {
+  PROMPT_MARGIN_TOKENS,
+  SUMMARY_ROLE,
+  compactHistory,
+  historyTokens,
+  planContext,
+  type HistoryEntry,
+} from "./context-budget";
+import { MESSAGE_OVERHEAD_TOKENS, countTokens } from "./token-count";
+
+// A model that only answers summary requests, keeping the prompts it is sent
+function fakeModel(contextWindow: number, summary = "Earlier: the user asked") {
+  const model = {
+    provider: "openai" as const,
+    model: "gpt-4",
+    contextWindow,
+    maxOutputTokens: 500,
+    prompts: [] as BaseMessageLike[][],
+    async invoke(messages: BaseMessageLike[]) {
+      model.prompts.push(messages);
+      return summary;
+    },
+    async *stream() {
+      yield summary;
+    },
+  };
+  return model satisfies ChatModel;
+}
+
+function turns(count: number, words = 40): HistoryEntry[] {
+  return Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? "user" : "assistant",
+    content: `Turn ${index}: ${"word ".repeat(words).trim()}`,
+  }));
+}
+
+describe("planContext", () => {
+  const model = fakeModel(10000);
+  const fixed = () =>
+    countTokens("system", model) +
+    countTokens("input", model) +
+    2 * MESSAGE_OVERHEAD_TOKENS;
+  const available = () =>
+    model.contextWindow - 500 - PROMPT_MARGIN_TOKENS - fixed();
+
+  test("splits what is left by share when every part wants more", () => {
+    const plan = planContext(model, "system", "input", {
+      documents: 1e6,
+      memory: 1e6,
+      history: 1e6,
+    });
+    assert.equal(plan.reply, 500);
+    assert.equal(plan.system, fixed());
+    assert.deepEqual(plan.budgets, {
+      documents: Math.floor(available() * 0.5),
+      memory: Math.floor(available() * 0.15),
+      history: Math.floor(available() * 0.35),
+    });
+  });
+
+  // Budgets are caps, so only what each part can use has to fit
+  const used = (
+    budgets: Record<string, number>,
+    wanted: Record<string, number>
+  ) =>
+    Object.keys(wanted).reduce(
+      (total, part) => total + Math.min(budgets[part], wanted[part]),
+      0
+    );
+
+  test("gives what small parts leave over to the hungry ones", () => {
+    const wanted = { documents: 0, memory: 100, history: 1e6 };
+    const plan = planContext(model, "system", "input", wanted);
+    assert.equal(plan.budgets.memory, Math.floor(available() * 0.15));
+    assert.equal(
+      plan.budgets.history,
+      Math.floor(available() * 0.35) +
+        Math.floor(available() * 0.5) +
+        plan.budgets.memory -
+        100
+    );
+    assert.ok(used(plan.budgets, wanted) <= available());
+  });
+
+  test("shares spare room between hungry parts without overfilling them", () => {
+    const wanted = {
+      documents: 0,
+      memory: Math.floor(available() * 0.2),
+      history: 1e6,
+    };
+    const plan = planContext(model, "system", "input", wanted);
+    assert.equal(plan.budgets.memory, wanted.memory);
+    // History ends up with the rest, less rounding
+    assert.ok(plan.budgets.history >= available() - wanted.memory - 3);
+    assert.ok(used(plan.budgets, wanted) <= available());
+  });
+
+  test("leaves nothing when the fixed prompt fills the window", () => {
+    const plan = planContext(model, "word ".repeat(20000), "input", {
+      documents: 10,
+      memory: 10,
+      history: 10,
+    });
+    assert.deepEqual(plan.budgets, { documents: 0, memory: 0, history: 0 });
+  });
+});
+
+describe("compactHistory", () => {
+  test("keeps an empty history without summarizing", async () => {
+    const model = fakeModel(4000);
+    const result = await compactHistory(model, [], 0);
+    assert.deepEqual(result, { history: [], compacted: 0 });
+    assert.equal(model.prompts.length, 0);
+  });
+
+  test("keeps a history that fits", async () => {
+    const model = fakeModel(4000);
+    const history = turns(4);
+    const result = await compactHistory(
+      model,
+      history,
+      historyTokens(history, model)
+    );
+    assert.equal(result.history, history);
+    assert.equal(result.compacted, 0);
+    assert.equal(model.prompts.length, 0);
+  });
+
+  test("folds the oldest turns into a summary and keeps the newest", async () => {
+    const model = fakeModel(4000);
+    const history = turns(10);
+    const budget = Math.floor(historyTokens(history, model) / 2);
+    const result = await compactHistory(model, history, budget);
+    assert.equal(model.prompts.length, 1);
+    assert.equal(result.history[0].role, SUMMARY_ROLE);
+    const kept = result.history.slice(1);
+    assert.ok(kept.length > 0);
+    assert.equal(result.compacted + kept.length, history.length);
+    assert.deepEqual(kept, history.slice(result.compacted));
+    assert.ok(historyTokens(result.history, model) <= budget);
+  });
+
+  test("cuts a summary that alone is over budget without summarizing", async () => {
+    const model = fakeModel(4000);
+    const recent = turns(1, 5);
+    const history = [
+      { role: SUMMARY_ROLE, content: "word ".repeat(2000) },
+      ...recent,
+    ];
+    const budget = historyTokens(recent, model) + 200;
+    const result = await compactHistory(model, history, budget);
+    assert.equal(model.prompts.length, 0);
+    assert.equal(result.compacted, 0);
+    assert.equal(result.history[0].role, SUMMARY_ROLE);
+    assert.ok(result.history[0].content.length < history[0].content.length);
+    assert.deepEqual(result.history.slice(1), recent);
+    assert.ok(historyTokens(result.history, model) <= budget);
+  });
+
+  test("folds an earlier summary into the new one", async () => {
+    const model = fakeModel(4000, "New summary");
+    const history = [
+      { role: SUMMARY_ROLE, content: "Old summary" },
+      ...turns(8),
+    ];
+    const result = await compactHistory(
+      model,
+      history,
+      Math.floor(historyTokens(history, model) / 2)
+    );
+    assert.equal(model.prompts.length, 1);
+    assert.ok(JSON.stringify(model.prompts[0]).includes("Old summary"));
+    assert.deepEqual(result.history[0], {
+      role: SUMMARY_ROLE,
+      content: "New summary",
+    });
+    assert.ok(result.compacted > 0);
+  });
+
+  test("summarizes every turn when none fits beside the summary", async () => {
+    const model = fakeModel(4000, "S");
+    const history = turns(3, 200);
+    const result = await compactHistory(model, history, 80);
+    assert.equal(result.compacted, 3);
+    assert.deepEqual(result.history, [{ role: SUMMARY_ROLE, content: "S" }]);
+  });
+});
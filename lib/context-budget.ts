@@ -0,0 +1,344 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import type { ChatModel } from "./chat-models";
+import type { ContextSource } from "./citations";
+import { sourcesTokens } from "./document-summarizer";
+import { renderPrompt } from "./prompt-registry";
+import {
+  DEFAULT_OUTPUT_TOKENS,
+  MESSAGE_OVERHEAD_TOKENS,
+  countTokens,
+} from "./token-count";
+
+// Splits a model's context between the parts of a prompt. The system prompt
+// and the new message are always sent and the reply keeps its room; the rest
+// goes to documents, memory and history by share. History over its budget is
+// compacted: the oldest turns are folded into a rolling summary that stays
+// at the start of the history, so each turn only summarizes what it drops.
+
+export const CONTEXT_PARTS = [
+  "system",
+  "documents",
+  "memory",
+  "history",
+] as const;
+export type ContextPart = (typeof CONTEXT_PARTS)[number];
+
+type FlexiblePart = Exclude<ContextPart, "system">;
+
+export const contextUsageSchema = z.object({
+  model: z.string(),
+  contextWindow: z.number(),
+  // Tokens kept free for the reply
+  reply: z.number(),
+  // The system part is always sent, so its budget is its size
+  parts: z.object(
+    Object.fromEntries(
+      CONTEXT_PARTS.map((part) => [
+        part,
+        z.object({ budget: z.number(), used: z.number() }),
+      ])
+    ) as Record<
+      ContextPart,
+      z.ZodObject<{ budget: z.ZodNumber; used: z.ZodNumber }>
+    >
+  ),
+  // Earlier messages folded into the history summary by this request
+  compactedMessages: z.number(),
+  // Prompt template version behind that summary
+  summaryPromptVersion: z.string().optional(),
+});
+
+export type ContextUsage = z.infer<typeof contextUsageSchema>;
+
+export interface HistoryEntry {
+  role: string;
+  content: string;
+}
+
+// Role of the history entry that carries the rolling summary
+export const SUMMARY_ROLE = "summary";
+
+// A summary the client keeps between turns of /api/chat: it stands in for
+// the first `messageCount` messages of the conversation
+export const historySummarySchema = z.object({
+  content: z.string().max(20000),
+  messageCount: z.number().int().nonnegative(),
+});
+
+export type HistorySummary = z.infer<typeof historySummarySchema>;
+
+export function describeSummary(summary: string) {
+  return `Summary of the earlier conversation:\n${summary}`;
+}
+
+// Slack for the difference between counted and actual prompt tokens
+export const PROMPT_MARGIN_TOKENS = 200;
+
+const shares: Record<FlexiblePart, number> = {
+  documents: 0.5,
+  memory: 0.15,
+  history: 0.35,
+};
+
+// Part of the history budget set aside for the summary when compacting
+const SUMMARY_SHARE = 0.3;
+const MIN_SUMMARY_TOKENS = 60;
+// Each dropped message is cut to this before it is summarized
+const MAX_SUMMARIZED_MESSAGE_CHARS = 4000;
+
+export function historyTokens(history: HistoryEntry[], model: ChatModel) {
+  return history.reduce(
+    (total, entry) =>
+      total + MESSAGE_OVERHEAD_TOKENS + countTokens(entry.content, model),
+    0
+  );
+}
+
+export interface ContextPlan {
+  reply: number;
+  system: number;
+  budgets: Record<FlexiblePart, number>;
+}
+
+// A part's budget is its share of what is left, plus whatever the parts
+// that need less than their share leave over
+export function planContext(
+  model: ChatModel,
+  system: string,
+  input: string,
+  wanted: Record<FlexiblePart, number>
+): ContextPlan {
+  const reply = model.maxOutputTokens ?? DEFAULT_OUTPUT_TOKENS;
+  const systemTokens =
+    countTokens(system, model) +
+    countTokens(input, model) +
+    2 * MESSAGE_OVERHEAD_TOKENS;
+  const available = Math.max(
+    0,
+    model.contextWindow - reply - PROMPT_MARGIN_TOKENS - systemTokens
+  );
+  const parts = Object.keys(shares) as FlexiblePart[];
+  const budgets = Object.fromEntries(
+    parts.map((part) => [part, Math.floor(available * shares[part])])
+  ) as Record<FlexiblePart, number>;
+  let spare = parts.reduce(
+    (total, part) => total + Math.max(0, budgets[part] - wanted[part]),
+    0
+  );
+  let hungry = parts.filter((part) => wanted[part] > budgets[part]);
+  while (spare > 0 && hungry.length > 0) {
+    const totalShare = hungry.reduce((total, part) => total + shares[part], 0);
+    let given = 0;
+    for (const part of hungry) {
+      const extra = Math.min(
+        wanted[part] - budgets[part],
+        Math.floor((spare * shares[part]) / totalShare)
+      );
+      budgets[part] += extra;
+      given += extra;
+    }
+    if (given === 0) break;
+    spare -= given;
+    hungry = hungry.filter((part) => wanted[part] > budgets[part]);
+  }
+  return { reply, system: systemTokens, budgets };
+}
+
+// The leading sources that fit in `budget`
+function fitSources(
+  sources: ContextSource[],
+  budget: number,
+  model: ChatModel
+) {
+  let fitted = sources;
+  while (fitted.length > 0 && sourcesTokens(fitted, model) > budget) {
+    fitted = fitted.slice(0, -1);
+  }
+  return fitted;
+}
+
+function cutToTokens(text: string, budget: number, model: ChatModel) {
+  let cut = text;
+  let tokens = countTokens(cut, model);
+  while (tokens > budget && cut) {
+    cut = cut.slice(0, Math.floor((cut.length * budget) / tokens) - 1);
+    tokens = countTokens(cut, model);
+  }
+  return cut;
+}
+
+async function summarizeTurns(
+  model: ChatModel,
+  previous: string | undefined,
+  turns: HistoryEntry[],
+  summaryTokens: number,
+  signal?: AbortSignal
+) {
+  // The transcript has to fit the model too; the oldest text goes first
+  const room = Math.max(
+    0,
+    model.contextWindow -
+      summaryTokens -
+      PROMPT_MARGIN_TOKENS -
+      countTokens(previous || "", model)
+  );
+  let lines = turns.map((turn) => {
+    const content =
+      turn.content.length > MAX_SUMMARIZED_MESSAGE_CHARS
+        ? `${turn.content.slice(0, MAX_SUMMARIZED_MESSAGE_CHARS)}…`
+        : turn.content;
+    return `${turn.role === "user" ? "User" : "Assistant"}: ${content}`;
+  });
+  while (lines.length > 1 && countTokens(lines.join("\n\n"), model) > room) {
+    lines = lines.slice(1);
+  }
+  const transcript = cutToTokens(lines.join("\n\n"), room, model);
+  const prompt = renderPrompt("summarize-history", {
+    words: String(Math.round(summaryTokens * 0.75)),
+  });
+  const summary = await model.invoke(
+    [
+      new SystemMessage(prompt.text),
+      new HumanMessage(
+        `${previous ? `Summary so far:\n${previous}\n\n` : ""}New messages:\n${transcript}`
+      ),
+    ],
+    { signal }
+  );
+  return {
+    summary: cutToTokens(summary.trim(), summaryTokens, model),
+    promptVersion: prompt.version,
+  };
+}
+
+// Keep the most recent turns that fit `budget` and fold the rest, along with
+// any earlier summary, into a new summary entry at the start
+export async function compactHistory(
+  model: ChatModel,
+  history: HistoryEntry[],
+  budget: number,
+  options: { signal?: AbortSignal } = {}
+): Promise<{
+  history: HistoryEntry[];
+  compacted: number;
+  promptVersion?: string;
+}> {
+  if (historyTokens(history, model) <= budget) {
+    return { history, compacted: 0 };
+  }
+  const previous =
+    history[0]?.role === SUMMARY_ROLE ? history[0].content : undefined;
+  const turns = previous === undefined ? history : history.slice(1);
+  const summaryTokens = Math.min(
+    Math.max(0, budget - MESSAGE_OVERHEAD_TOKENS),
+    Math.max(MIN_SUMMARY_TOKENS, Math.floor(budget * SUMMARY_SHARE))
+  );
+  let keep = turns.length;
+  let used = 0;
+  while (keep > 0) {
+    const tokens = historyTokens([turns[keep - 1]], model);
+    if (used + tokens > budget - summaryTokens - MESSAGE_OVERHEAD_TOKENS) {
+      break;
+    }
+    used += tokens;
+    keep--;
+  }
+  const dropped = turns.slice(0, keep);
+  if (dropped.length === 0) {
+    // Only the summary is over budget
+    return {
+      history: [
+        {
+          role: SUMMARY_ROLE,
+          content: cutToTokens(previous || "", summaryTokens, model),
+        },
+        ...turns,
+      ],
+      compacted: 0,
+    };
+  }
+  const { summary, promptVersion } = await summarizeTurns(
+    model,
+    previous,
+    dropped,
+    summaryTokens,
+    options.signal
+  );
+  return {
+    history: [{ role: SUMMARY_ROLE, content: summary }, ...turns.slice(keep)],
+    compacted: dropped.length,
+    promptVersion,
+  };
+}
+
+export interface ContextRequest {
+  // Instructions and everything else sent on every request
+  system: string;
+  // The new user message
+  input: string;
+  documents?: ContextSource[];
+  memory?: ContextSource[];
+  history?: HistoryEntry[];
+}
+
+export interface FittedContext {
+  documents: ContextSource[];
+  memory: ContextSource[];
+  history: HistoryEntry[];
+  usage: ContextUsage;
+}
+
+// Trim documents and memory and compact history so the request fits the
+// model, and report how much of each budget it uses
+export async function fitContext(
+  model: ChatModel,
+  request: ContextRequest,
+  options: { signal?: AbortSignal } = {}
+): Promise<FittedContext> {
+  const { documents = [], memory = [], history = [] } = request;
+  const plan = planContext(model, request.system, request.input, {
+    documents: documents.length > 0 ? sourcesTokens(documents, model) : 0,
+    memory: memory.length > 0 ? sourcesTokens(memory, model) : 0,
+    history: historyTokens(history, model),
+  });
+  const fittedDocuments = fitSources(documents, plan.budgets.documents, model);
+  const fittedMemory = fitSources(memory, plan.budgets.memory, model);
+  const compacted = await compactHistory(
+    model,
+    history,
+    plan.budgets.history,
+    options
+  );
+  return {
+    documents: fittedDocuments,
+    memory: fittedMemory,
+    history: compacted.history,
+    usage: {
+      model: model.model,
+      contextWindow: model.contextWindow,
+      reply: plan.reply,
+      parts: {
+        system: { budget: plan.system, used: plan.system },
+        documents: {
+          budget: plan.budgets.documents,
+          used:
+            fittedDocuments.length > 0
+              ? sourcesTokens(fittedDocuments, model)
+              : 0,
+        },
+        memory: {
+          budget: plan.budgets.memory,
+          used:
+            fittedMemory.length > 0 ? sourcesTokens(fittedMemory, model) : 0,
+        },
+        history: {
+          budget: plan.budgets.history,
+          used: historyTokens(compacted.history, model),
+        },
+      },
+      compactedMessages: compacted.compacted,
+      summaryPromptVersion: compacted.promptVersion,
+    },
+  };
+}
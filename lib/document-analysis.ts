@@ -0,0 +1,190 @@
+import { z } from "zod";
+
+// Structured analysis of documents or pasted text. Each mode has a zod
+// schema for the JSON the model must return; the handler renders prose from
+// the validated result so the two never disagree.
+
+export const ANALYSIS_MODES = [
+  "summary",
+  "key_points",
+  "entities",
+  "sentiment",
+] as const;
+export type AnalysisMode = (typeof ANALYSIS_MODES)[number];
+
+export const SUMMARY_LENGTHS = ["short", "medium", "long"] as const;
+export type SummaryLength = (typeof SUMMARY_LENGTHS)[number];
+
+export interface AnalysisRequest {
+  mode?: AnalysisMode;
+  summaryLength?: SummaryLength;
+}
+
+const summaryLengthGuide: Record<SummaryLength, string> = {
+  short: "2-3 sentences",
+  medium: "one or two paragraphs",
+  long: "several paragraphs covering every major section",
+};
+
+export const analysisResultSchema = z.discriminatedUnion("mode", [
+  z.object({
+    mode: z.literal("summary"),
+    length: z.enum(SUMMARY_LENGTHS),
+    summary: z.string().min(1),
+  }),
+  z.object({
+    mode: z.literal("key_points"),
+    points: z
+      .array(
+        z.object({
+          point: z.string().min(1),
+          detail: z.string().optional(),
+        })
+      )
+      .min(1),
+  }),
+  z.object({
+    mode: z.literal("entities"),
+    entities: z.array(
+      z.object({
+        text: z.string().min(1),
+        type: z.enum([
+          "person",
+          "organization",
+          "location",
+          "product",
+          "other",
+        ]),
+        mentions: z.number().int().positive().optional(),
+      })
+    ),
+    dates: z.array(
+      z.object({
+        text: z.string().min(1),
+        // ISO 8601 when the date is unambiguous
+        isoDate: z.string().optional(),
+        context: z.string(),
+      })
+    ),
+    numbers: z.array(
+      z.object({
+        text: z.string().min(1),
+        value: z.number().optional(),
+        unit: z.string().optional(),
+        context: z.string(),
+      })
+    ),
+  }),
+  z.object({
+    mode: z.literal("sentiment"),
+    overall: z.enum(["positive", "negative", "neutral", "mixed"]),
+    // -1 (very negative) to 1 (very positive)
+    score: z.number().min(-1).max(1),
+    aspects: z.array(
+      z.object({
+        aspect: z.string().min(1),
+        sentiment: z.enum(["positive", "negative", "neutral", "mixed"]),
+        evidence: z.string(),
+      })
+    ),
+  }),
+]);
+
+export type AnalysisResult = z.infer<typeof analysisResultSchema>;
+
+const modeKeywords: [AnalysisMode, RegExp][] = [
+  ["sentiment", /\b(sentiment|tone|feel(ing)?s?|attitude|opinion)\b/i],
+  [
+    "entities",
+    /\b(entit(y|ies)|names?|people|organi[sz]ations?|dates?|numbers?|figures|amounts?)\b/i,
+  ],
+  [
+    "key_points",
+    /\b(key|main|important) (points?|ideas?|findings?)\b|\btakeaways?\b|\bbullet/i,
+  ],
+];
+
+const lengthKeywords: [SummaryLength, RegExp][] = [
+  ["short", /\b(brief|short|quick|tl;?dr|one[- ](line|sentence|paragraph))\b/i],
+  ["long", /\b(detailed|in[- ]depth|long|thorough|comprehensive)\b/i],
+];
+
+// Fill in whatever the caller did not choose from the wording of the request
+export function resolveAnalysisRequest(
+  input: string,
+  request: AnalysisRequest = {}
+): Required<AnalysisRequest> {
+  const mode =
+    request.mode ??
+    modeKeywords.find(([, pattern]) => pattern.test(input))?.[0] ??
+    "summary";
+  const summaryLength =
+    request.summaryLength ??
+    lengthKeywords.find(([, pattern]) => pattern.test(input))?.[0] ??
+    "medium";
+  return { mode, summaryLength };
+}
+
+const modeInstructions: Record<
+  AnalysisMode,
+  (length: SummaryLength) => string
+> = {
+  summary: (length) =>
+    `Summarize the content in ${summaryLengthGuide[length]}. Reply with JSON: {"mode": "summary", "length": "${length}", "summary": string}`,
+  key_points: () =>
+    `Extract the key points, most important first. Reply with JSON: {"mode": "key_points", "points": [{"point": string, "detail"?: string}]}`,
+  entities: () =>
+    `Extract named entities, dates and numbers. Reply with JSON: {"mode": "entities", "entities": [{"text": string, "type": "person" | "organization" | "location" | "product" | "other", "mentions"?: number}], "dates": [{"text": string, "isoDate"?: string, "context": string}], "numbers": [{"text": string, "value"?: number, "unit"?: string, "context": string}]}. Use empty arrays for anything not present.`,
+  sentiment: () =>
+    `Assess the sentiment. Reply with JSON: {"mode": "sentiment", "overall": "positive" | "negative" | "neutral" | "mixed", "score": number from -1 to 1, "aspects": [{"aspect": string, "sentiment": "positive" | "negative" | "neutral" | "mixed", "evidence": string}]}`,
+};
+
+export function analysisInstructions(request: Required<AnalysisRequest>) {
+  return `${modeInstructions[request.mode](request.summaryLength)}
+Respond with the JSON object only, no Markdown fences or commentary.`;
+}
+
+// Prose version of a result, for the chat transcript and for memory
+export function formatAnalysis(result: AnalysisResult): string {
+  switch (result.mode) {
+    case "summary":
+      return result.summary;
+    case "key_points":
+      return result.points
+        .map(
+          (point, index) =>
+            `${index + 1}. ${point.point}${point.detail ? ` — ${point.detail}` : ""}`
+        )
+        .join("\n");
+    case "entities": {
+      const sections = [
+        result.entities.length > 0 &&
+          `Entities:\n${result.entities
+            .map((entity) => `- ${entity.text} (${entity.type})`)
+            .join("\n")}`,
+        result.dates.length > 0 &&
+          `Dates:\n${result.dates
+            .map((date) => `- ${date.text}: ${date.context}`)
+            .join("\n")}`,
+        result.numbers.length > 0 &&
+          `Numbers:\n${result.numbers
+            .map((number) => `- ${number.text}: ${number.context}`)
+            .join("\n")}`,
+      ].filter(Boolean);
+      return sections.length > 0
+        ? sections.join("\n\n")
+        : "No entities, dates or numbers were found.";
+    }
+    case "sentiment": {
+      const aspects = result.aspects
+        .map(
+          (aspect) =>
+            `- ${aspect.aspect}: ${aspect.sentiment} ("${aspect.evidence}")`
+        )
+        .join("\n");
+      return `Overall sentiment: ${result.overall} (score ${result.score.toFixed(2)})${
+        aspects ? `\n\n${aspects}` : ""
+      }`;
+    }
+  }
+}
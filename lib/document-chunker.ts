@@ -0,0 +1,156 @@
+// Splits normalized document text (see document-parser.ts) into overlapping
+// chunks for embedding. Chunks break on headings, then paragraphs, then
+// sentences, and each chunk's text is exactly text.slice(start, end).
+
+export interface DocumentChunk {
+  filename: string;
+  chunkIndex: number;
+  start: number;
+  end: number;
+  text: string;
+  heading?: string;
+}
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+export const DEFAULT_CHUNK_SIZE = 1500;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+
+interface Segment {
+  start: number;
+  end: number;
+  heading?: string;
+  paragraphStart?: boolean;
+}
+
+const headingPattern = /^(#{1,6})\s+(.+)$/;
+
+// Ranges of the non-empty blocks separated by blank lines
+function findBlocks(text: string): Segment[] {
+  const blocks: Segment[] = [];
+  const separator = /\n\s*\n/g;
+  let start = 0;
+  for (const match of text.matchAll(separator)) {
+    blocks.push({ start, end: match.index });
+    start = match.index + match[0].length;
+  }
+  blocks.push({ start, end: text.length });
+  return blocks
+    .map((block) => trimRange(text, block))
+    .filter((block) => block.end > block.start);
+}
+
+function trimRange(text: string, { start, end }: Segment): Segment {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+// Break a block into sentences, with hard cuts for sentences that are
+// longer than a whole chunk
+function splitSentences(text: string, block: Segment, size: number): Segment[] {
+  const pieces: Segment[] = [];
+  const sentenceEnd = /[.!?](?=\s)|\n/g;
+  sentenceEnd.lastIndex = block.start;
+  let pieceStart = block.start;
+  let match: RegExpExecArray | null;
+  while ((match = sentenceEnd.exec(text)) && match.index < block.end) {
+    const end = match.index + 1;
+    pieces.push(trimRange(text, { start: pieceStart, end }));
+    pieceStart = end;
+  }
+  pieces.push(trimRange(text, { start: pieceStart, end: block.end }));
+
+  return pieces
+    .filter((piece) => piece.end > piece.start)
+    .flatMap((piece) => {
+      const cuts: Segment[] = [];
+      for (let start = piece.start; start < piece.end; start += size) {
+        cuts.push({ start, end: Math.min(start + size, piece.end) });
+      }
+      return cuts;
+    });
+}
+
+export function chunkDocument(
+  filename: string,
+  text: string,
+  {
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    overlap = DEFAULT_CHUNK_OVERLAP,
+  }: ChunkOptions = {}
+): DocumentChunk[] {
+  const segments: Segment[] = [];
+  for (const block of findBlocks(text)) {
+    const heading = text.slice(block.start, block.end).match(headingPattern);
+    if (heading) {
+      segments.push({ ...block, heading: heading[2].trim() });
+    } else {
+      const sentences = splitSentences(text, block, chunkSize);
+      sentences[0].paragraphStart = true;
+      segments.push(...sentences);
+    }
+  }
+
+  // Section title for each segment: the last heading at or before it
+  const sections: (string | undefined)[] = [];
+  for (const segment of segments) {
+    sections.push(segment.heading ?? sections[sections.length - 1]);
+  }
+
+  const chunks: DocumentChunk[] = [];
+  let previousEnd = -1;
+  let i = 0;
+  while (i < segments.length) {
+    const start = segments[i].start;
+    let j = i;
+    while (j + 1 < segments.length) {
+      const next = segments[j + 1];
+      if (next.end - start > chunkSize) break;
+      // Start a new section in a new chunk once this one has some substance
+      if (next.heading && segments[j].end - start >= chunkSize / 2) break;
+      j++;
+    }
+    // Prefer ending on a paragraph break over splitting a paragraph
+    if (j + 1 < segments.length && !segments[j + 1].paragraphStart) {
+      for (let k = j - 1; k > i; k--) {
+        if (segments[k].end - start < chunkSize / 2) break;
+        if (segments[k].end <= previousEnd) break;
+        if (segments[k + 1].paragraphStart) {
+          j = k;
+          break;
+        }
+      }
+    }
+    const end = segments[j].end;
+    chunks.push({
+      filename,
+      chunkIndex: chunks.length,
+      start,
+      end,
+      text: text.slice(start, end),
+      heading: sections[i],
+    });
+    if (j + 1 >= segments.length) break;
+    previousEnd = end;
+
+    // Overlap: restart at the earliest trailing sentence within `overlap`
+    // characters of the end, unless the next chunk begins a new section
+    let next = j + 1;
+    if (!segments[next].heading) {
+      for (let k = i + 1; k <= j; k++) {
+        // ...as long as the next chunk still reaches past this one's end
+        if (segments[j + 1].end - segments[k].start > chunkSize) continue;
+        if (segments[k].start >= end - overlap && !segments[k].heading) {
+          next = k;
+          break;
+        }
+      }
+    }
+    i = next;
+  }
+  return chunks;
+}
@@ -0,0 +1,372 @@
+import { z } from "zod";
+import { chunkDocument } from "./document-chunker";
+
+// Comparison of two or more documents, e.g. contract versions or policy
+// drafts. Sections are aligned here, by heading and then by shared wording,
+// so the model only judges what changed within each aligned row. Documents
+// are compared in order: each one against the versions before it.
+
+export interface DocumentSection {
+  heading?: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface AlignedSection {
+  topic: string;
+  // One entry per document, null where the document has no such section
+  sections: (DocumentSection | null)[];
+}
+
+export const SECTION_STATUSES = [
+  "unchanged",
+  "changed",
+  "added",
+  "removed",
+  "contradictory",
+] as const;
+export type SectionStatus = (typeof SECTION_STATUSES)[number];
+
+const changeSchema = z.object({
+  row: z.number().int(),
+  topic: z.string(),
+  document: z.string(),
+  description: z.string(),
+});
+
+export const comparisonResultSchema = z.object({
+  documents: z.array(z.string()).min(2),
+  summary: z.string(),
+  sections: z.array(
+    z.object({
+      row: z.number().int(),
+      topic: z.string(),
+      headings: z.array(z.string().nullable()),
+      status: z.enum(SECTION_STATUSES),
+      summary: z.string(),
+    })
+  ),
+  additions: z.array(changeSchema),
+  removals: z.array(changeSchema),
+  contradictions: z.array(
+    z.object({
+      row: z.number().int(),
+      topic: z.string(),
+      description: z.string(),
+      statements: z.array(
+        z.object({ document: z.string(), statement: z.string() })
+      ),
+    })
+  ),
+});
+
+export type ComparisonResult = z.infer<typeof comparisonResultSchema>;
+
+const headingLinePattern = /^#{1,6}\s+(.+)$/gm;
+
+// Sections start at heading lines; text before the first heading is a
+// section of its own. Documents without headings are cut into parts.
+export function splitSections(filename: string, text: string) {
+  const headings = Array.from(text.matchAll(headingLinePattern));
+  if (headings.length === 0) {
+    return chunkDocument(filename, text, { overlap: 0 }).map(
+      ({ start, end, text }): DocumentSection => ({ start, end, text })
+    );
+  }
+  const sections: DocumentSection[] = [];
+  const starts = headings.map((match) => match.index);
+  if (text.slice(0, starts[0]).trim()) {
+    sections.push({ start: 0, end: starts[0], text: text.slice(0, starts[0]) });
+  }
+  headings.forEach((match, i) => {
+    const end = starts[i + 1] ?? text.length;
+    sections.push({
+      heading: match[1].trim(),
+      start: match.index,
+      end,
+      text: text.slice(match.index, end),
+    });
+  });
+  return sections.map((section) => ({
+    ...section,
+    text: section.text.trim(),
+  }));
+}
+
+// "3.2 Payment Terms:" and "Section 4 - payment terms" are the same heading
+function normalizeHeading(heading: string) {
+  return heading
+    .toLowerCase()
+    .replace(/^(section|article|clause|part|chapter)\s+/, "")
+    .replace(/^[\divxlc]+([.)]\d*)*[.)]?\s+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function words(text: string) {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// Below this, sections are treated as unrelated
+const MIN_ALIGNMENT_SCORE = 0.25;
+
+function alignmentScore(a: DocumentSection, b: DocumentSection) {
+  const sameHeading =
+    a.heading !== undefined &&
+    b.heading !== undefined &&
+    normalizeHeading(a.heading) === normalizeHeading(b.heading);
+  return (sameHeading ? 1 : 0) + jaccard(words(a.text), words(b.text));
+}
+
+function sectionTopic(section: DocumentSection, row: number) {
+  if (section.heading) return section.heading;
+  const opening = section.text.split(/\s+/).slice(0, 8).join(" ");
+  return opening ? `${opening}…` : `Part ${row + 1}`;
+}
+
+// Align sections across documents. Each document is matched against the
+// latest version of every row so far; sections with no match become new rows
+// placed after the previous section of the same document.
+export function alignSections(documents: DocumentSection[][]) {
+  const rows: AlignedSection[] = [];
+  documents.forEach((sections, doc) => {
+    const latest = rows.map(
+      (row) =>
+        row.sections
+          .slice(0, doc)
+          .reverse()
+          .find((section) => section !== null) ?? null
+    );
+    const candidates: { row: number; section: number; score: number }[] = [];
+    latest.forEach((rowSection, row) => {
+      if (!rowSection) return;
+      sections.forEach((section, index) => {
+        const score = alignmentScore(rowSection, section);
+        if (score >= MIN_ALIGNMENT_SCORE) {
+          candidates.push({ row, section: index, score });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+    const matchedRows = new Map<number, AlignedSection>();
+    const usedRows = new Set<number>();
+    for (const { row, section } of candidates) {
+      if (usedRows.has(row) || matchedRows.has(section)) continue;
+      usedRows.add(row);
+      matchedRows.set(section, rows[row]);
+    }
+
+    let previous = -1;
+    sections.forEach((section, index) => {
+      let row = matchedRows.get(index);
+      if (!row) {
+        row = {
+          topic: "",
+          sections: Array<DocumentSection | null>(documents.length).fill(null),
+        };
+        rows.splice(previous + 1, 0, row);
+      }
+      row.sections[doc] = section;
+      previous = rows.indexOf(row);
+    });
+  });
+  rows.forEach((row, index) => {
+    const first = row.sections.find((section) => section !== null);
+    row.topic = first ? sectionTopic(first, index) : `Part ${index + 1}`;
+  });
+  return rows;
+}
+
+// Section text without its heading line, whitespace collapsed; together
+// with the normalized heading this ignores renumbering
+function sectionKey(section: DocumentSection) {
+  const body = section.heading
+    ? section.text.replace(/^.*(\n|$)/, "")
+    : section.text;
+  return `${normalizeHeading(section.heading ?? "")}\n${body.replace(/\s+/g, " ").trim()}`;
+}
+
+// Status that follows from the alignment alone, used for rows the model
+// does not need to see and when its reply is unusable
+export function alignedStatus(row: AlignedSection): SectionStatus {
+  const [first, ...rest] = row.sections;
+  if (!first) return "added";
+  if (rest.some((section) => !section)) return "removed";
+  const key = sectionKey(first);
+  return rest.every((section) => sectionKey(section!) === key)
+    ? "unchanged"
+    : "changed";
+}
+
+// Total characters of section text sent to the model
+const MAX_COMPARISON_CHARS = 24000;
+const MIN_SECTION_CHARS = 400;
+
+export function comparisonPrompt(names: string[], rows: AlignedSection[]) {
+  const shown = rows
+    .map((row, index) => ({ row, number: index + 1 }))
+    .filter(({ row }) => alignedStatus(row) !== "unchanged");
+  const perSection = Math.max(
+    MIN_SECTION_CHARS,
+    Math.floor(MAX_COMPARISON_CHARS / Math.max(1, shown.length * names.length))
+  );
+  const body = shown
+    .map(({ row, number }) => {
+      const versions = row.sections.map((section, doc) => {
+        const text = !section
+          ? "(absent)"
+          : section.text.length > perSection
+            ? `${section.text.slice(0, perSection)}…`
+            : section.text;
+        return `[Document ${doc + 1}]\n${text}`;
+      });
+      return `Row ${number}: ${row.topic}\n${versions.join("\n")}`;
+    })
+    .join("\n\n");
+  const documents = names
+    .map((name, doc) => `Document ${doc + 1}: ${name}`)
+    .join("\n");
+  return `${documents}
+
+Sections were aligned by heading and content. Rows that are identical in every document are left out.
+
+${body || "(Every section is identical.)"}`;
+}
+
+export const COMPARISON_INSTRUCTIONS = `Compare the documents row by row. Documents are versions in order: compare each one with the document before it.
+Reply with JSON only, no Markdown fences or commentary:
+{"summary": string, "sections": [{"row": number, "status": "unchanged" | "changed" | "added" | "removed" | "contradictory", "summary": string}], "additions": [{"row": number, "document": number, "description": string}], "removals": [{"row": number, "document": number, "description": string}], "contradictions": [{"row": number, "description": string, "statements": [{"document": number, "statement": string}]}]}
+- "summary" is a narrative of the most important differences in one to three paragraphs.
+- Give every row shown a "sections" entry with a one-sentence summary of how it differs.
+- An addition is content a document has that the document before it lacks; a removal is content the document before it had that it drops. Report both on the later document's number.
+- A contradiction is where documents make incompatible statements about the same thing, such as different amounts, dates, parties, obligations or permissions. Quote or closely paraphrase each conflicting statement.
+Use empty arrays where there is nothing to report.`;
+
+// The reply schema, limited to the rows and documents that exist
+export function comparisonReplySchema(documentCount: number, rowCount: number) {
+  const row = z.number().int().min(1).max(Math.max(1, rowCount));
+  const document = z.number().int().min(1).max(documentCount);
+  return z.object({
+    summary: z.string(),
+    sections: z.array(
+      z.object({
+        row,
+        status: z.enum(SECTION_STATUSES),
+        summary: z.string(),
+      })
+    ),
+    additions: z.array(z.object({ row, document, description: z.string() })),
+    removals: z.array(z.object({ row, document, description: z.string() })),
+    contradictions: z.array(
+      z.object({
+        row,
+        description: z.string(),
+        statements: z
+          .array(z.object({ document, statement: z.string() }))
+          .min(2),
+      })
+    ),
+  });
+}
+
+export type ComparisonReply = z.infer<ReturnType<typeof comparisonReplySchema>>;
+
+// Combine the alignment with the model's reply, or with nothing when the
+// reply was unusable
+export function buildComparison(
+  names: string[],
+  rows: AlignedSection[],
+  reply?: ComparisonReply
+): ComparisonResult {
+  const topic = (row: number) => rows[row - 1]?.topic ?? `Row ${row}`;
+  const name = (doc: number) => names[doc - 1];
+  return {
+    documents: names,
+    summary: reply?.summary ?? "",
+    sections: rows.map((row, index) => {
+      const judged = reply?.sections.find(
+        (section) => section.row === index + 1
+      );
+      const status = alignedStatus(row);
+      return {
+        row: index + 1,
+        topic: row.topic,
+        headings: row.sections.map((section) => section?.heading ?? null),
+        // Identical rows were never shown to the model
+        status: status === "unchanged" ? status : (judged?.status ?? status),
+        summary: judged?.summary ?? "",
+      };
+    }),
+    additions: (reply?.additions ?? []).map((change) => ({
+      ...change,
+      topic: topic(change.row),
+      document: name(change.document),
+    })),
+    removals: (reply?.removals ?? []).map((change) => ({
+      ...change,
+      topic: topic(change.row),
+      document: name(change.document),
+    })),
+    contradictions: (reply?.contradictions ?? []).map((contradiction) => ({
+      ...contradiction,
+      topic: topic(contradiction.row),
+      statements: contradiction.statements.map((statement) => ({
+        document: name(statement.document),
+        statement: statement.statement,
+      })),
+    })),
+  };
+}
+
+// Prose version of a comparison, for the chat transcript and for memory
+export function formatComparison(result: ComparisonResult) {
+  const changed = result.sections.filter(
+    (section) => section.status !== "unchanged"
+  );
+  const parts = [
+    result.summary ||
+      `Compared ${result.documents.join(", ")}: ${changed.length} of ${result.sections.length} sections differ.`,
+    changed.length > 0 &&
+      `Sections:\n${changed
+        .map(
+          (section) =>
+            `- ${section.topic}: ${section.status}${section.summary ? ` — ${section.summary}` : ""}`
+        )
+        .join("\n")}`,
+    result.additions.length > 0 &&
+      `Additions:\n${result.additions
+        .map(
+          (change) =>
+            `- ${change.document} (${change.topic}): ${change.description}`
+        )
+        .join("\n")}`,
+    result.removals.length > 0 &&
+      `Removals:\n${result.removals
+        .map(
+          (change) =>
+            `- ${change.document} (${change.topic}): ${change.description}`
+        )
+        .join("\n")}`,
+    result.contradictions.length > 0 &&
+      `Contradictions:\n${result.contradictions
+        .map(
+          (contradiction) =>
+            `- ${contradiction.topic}: ${contradiction.description}\n${contradiction.statements
+              .map(
+                (statement) =>
+                  `  - ${statement.document}: "${statement.statement}"`
+              )
+              .join("\n")}`
+        )
+        .join("\n")}`,
+  ];
+  return parts.filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,547 @@
+import {
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
+import { describeSource, type Citation } from "./citations";
+import type { AnalysisResult } from "./document-analysis";
+import type {
+  ExportFormat,
+  ExportMessage,
+  ExportRequest,
+} from "./export-request";
+
+// Every export is laid out once as format-neutral blocks and then rendered
+// to Markdown, DOCX or PDF. JSON exports are the validated request itself.
+
+type ExportBlock =
+  | { type: "heading"; level: 1 | 2 | 3; text: string }
+  // "meta" paragraphs are dates, attachments and other small print
+  | { type: "paragraph"; text: string; meta?: boolean }
+  | { type: "list"; items: string[]; ordered?: boolean }
+  | { type: "table"; header: string[]; rows: string[][] };
+
+interface ExportLayout {
+  // Revised documents have no title of their own
+  title?: string;
+  blocks: ExportBlock[];
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Uint8Array;
+}
+
+const fileExtensions: Record<ExportFormat, string> = {
+  markdown: "md",
+  docx: "docx",
+  pdf: "pdf",
+  json: "json",
+};
+
+const contentTypes: Record<ExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+  json: "application/json; charset=utf-8",
+};
+
+const encoder = new TextEncoder();
+
+function paragraphs(text: string): ExportBlock[] {
+  return text
+    .split(/\n{2,}/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => ({ type: "paragraph", text: part }));
+}
+
+function sourceList(citations: Citation[], level: 2 | 3): ExportBlock[] {
+  if (citations.length === 0) return [];
+  return [
+    { type: "heading", level, text: "Sources" },
+    {
+      type: "list",
+      items: citations.map(
+        (citation) => `[${citation.marker}] ${describeSource(citation)}`
+      ),
+    },
+  ];
+}
+
+function analysisBlocks(analysis: AnalysisResult): ExportBlock[] {
+  switch (analysis.mode) {
+    case "summary":
+      return paragraphs(analysis.summary);
+    case "key_points":
+      return [
+        {
+          type: "list",
+          ordered: true,
+          items: analysis.points.map((point) =>
+            point.detail ? `${point.point} — ${point.detail}` : point.point
+          ),
+        },
+      ];
+    case "entities": {
+      const blocks: ExportBlock[] = [];
+      if (analysis.entities.length > 0) {
+        blocks.push(
+          { type: "heading", level: 2, text: "Entities" },
+          {
+            type: "table",
+            header: ["Entity", "Type", "Mentions"],
+            rows: analysis.entities.map((entity) => [
+              entity.text,
+              entity.type,
+              entity.mentions?.toString() ?? "",
+            ]),
+          }
+        );
+      }
+      if (analysis.dates.length > 0) {
+        blocks.push(
+          { type: "heading", level: 2, text: "Dates" },
+          {
+            type: "table",
+            header: ["Date", "ISO", "Context"],
+            rows: analysis.dates.map((date) => [
+              date.text,
+              date.isoDate ?? "",
+              date.context,
+            ]),
+          }
+        );
+      }
+      if (analysis.numbers.length > 0) {
+        blocks.push(
+          { type: "heading", level: 2, text: "Numbers" },
+          {
+            type: "table",
+            header: ["Number", "Value", "Context"],
+            rows: analysis.numbers.map((number) => [
+              number.text,
+              number.value !== undefined
+                ? `${number.value}${number.unit ? ` ${number.unit}` : ""}`
+                : "",
+              number.context,
+            ]),
+          }
+        );
+      }
+      return blocks.length > 0
+        ? blocks
+        : paragraphs("No entities, dates or numbers were found.");
+    }
+    case "sentiment": {
+      const blocks: ExportBlock[] = paragraphs(
+        `Overall sentiment: ${analysis.overall} (score ${analysis.score.toFixed(2)})`
+      );
+      if (analysis.aspects.length > 0) {
+        blocks.push({
+          type: "table",
+          header: ["Aspect", "Sentiment", "Evidence"],
+          rows: analysis.aspects.map((aspect) => [
+            aspect.aspect,
+            aspect.sentiment,
+            aspect.evidence,
+          ]),
+        });
+      }
+      return blocks;
+    }
+  }
+}
+
+function messageBlocks(message: ExportMessage): ExportBlock[] {
+  const speaker =
+    message.role === "user"
+      ? "You"
+      : message.taskType
+        ? `Assistant (${message.taskType})`
+        : "Assistant";
+  const details = [
+    message.timestamp && new Date(message.timestamp).toLocaleString("en-US"),
+    message.attachments?.length &&
+      `Attached: ${message.attachments.join(", ")}`,
+  ].filter(Boolean);
+  const blocks: ExportBlock[] = [{ type: "heading", level: 2, text: speaker }];
+  if (details.length > 0) {
+    blocks.push({ type: "paragraph", text: details.join(" · "), meta: true });
+  }
+  blocks.push(...paragraphs(message.content));
+  if (message.reasoningSteps && message.reasoningSteps.length > 0) {
+    blocks.push(
+      { type: "heading", level: 3, text: "Reasoning steps" },
+      { type: "list", ordered: true, items: message.reasoningSteps }
+    );
+  }
+  blocks.push(...sourceList(message.citations || [], 3));
+  return blocks;
+}
+
+function exportedOn() {
+  return `Exported ${new Date().toLocaleString("en-US")}`;
+}
+
+function layoutExport(request: ExportRequest): ExportLayout {
+  switch (request.kind) {
+    case "document": {
+      // Markdown headings survive the trip into DOCX and PDF; everything
+      // else keeps its line breaks
+      const blocks = request.text.split(/\n{2,}/).map((part): ExportBlock => {
+        const heading = part.match(/^(#{1,3})\s+(.+)$/);
+        return heading
+          ? {
+              type: "heading",
+              level: heading[1].length as 1 | 2 | 3,
+              text: heading[2],
+            }
+          : { type: "paragraph", text: part };
+      });
+      return { blocks };
+    }
+    case "summary":
+      return {
+        title:
+          request.title ||
+          (request.documentName
+            ? `Summary of ${request.documentName}`
+            : "Summary report"),
+        blocks: [
+          { type: "paragraph", text: exportedOn(), meta: true },
+          ...(request.analysis
+            ? analysisBlocks(request.analysis)
+            : paragraphs(request.summary)),
+          ...sourceList(request.citations || [], 2),
+        ],
+      };
+    case "transcript":
+      return {
+        title: request.title || "Conversation transcript",
+        blocks: [
+          {
+            type: "paragraph",
+            text: [
+              request.documentName && `Document: ${request.documentName}`,
+              exportedOn(),
+            ]
+              .filter(Boolean)
+              .join(" · "),
+            meta: true,
+          },
+          ...request.messages.flatMap(messageBlocks),
+        ],
+      };
+  }
+}
+
+function escapeTableCell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function renderMarkdown(layout: ExportLayout) {
+  const parts = layout.title ? [`# ${layout.title}`] : [];
+  for (const block of layout.blocks) {
+    switch (block.type) {
+      case "heading":
+        parts.push(`${"#".repeat(block.level)} ${block.text}`);
+        break;
+      case "paragraph":
+        parts.push(block.meta ? `_${block.text}_` : block.text);
+        break;
+      case "list":
+        parts.push(
+          block.items
+            .map((item, i) => `${block.ordered ? `${i + 1}.` : "-"} ${item}`)
+            .join("\n")
+        );
+        break;
+      case "table":
+        parts.push(
+          [block.header, block.header.map(() => "---"), ...block.rows]
+            .map((row) => `| ${row.map(escapeTableCell).join(" | ")} |`)
+            .join("\n")
+        );
+        break;
+    }
+  }
+  return `${parts.join("\n\n")}\n`;
+}
+
+const docxHeadings = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3,
+} as const;
+
+// Line breaks inside a paragraph become breaks between runs
+function docxRuns(text: string, options: { italics?: boolean } = {}) {
+  return text
+    .split("\n")
+    .map(
+      (line, i) => new TextRun({ text: line, break: i > 0 ? 1 : 0, ...options })
+    );
+}
+
+async function renderDocx(layout: ExportLayout) {
+  const children: (Paragraph | Table)[] = [];
+  if (layout.title) {
+    children.push(
+      new Paragraph({ text: layout.title, heading: HeadingLevel.TITLE })
+    );
+  }
+  for (const block of layout.blocks) {
+    switch (block.type) {
+      case "heading":
+        children.push(
+          new Paragraph({
+            text: block.text,
+            heading: docxHeadings[block.level],
+          })
+        );
+        break;
+      case "paragraph":
+        children.push(
+          new Paragraph({
+            children: docxRuns(block.text, { italics: block.meta }),
+          })
+        );
+        break;
+      case "list":
+        block.items.forEach((item, i) =>
+          children.push(
+            block.ordered
+              ? new Paragraph({
+                  children: docxRuns(`${i + 1}. ${item}`),
+                  indent: { left: 360 },
+                })
+              : new Paragraph({
+                  children: docxRuns(item),
+                  bullet: { level: 0 },
+                })
+          )
+        );
+        break;
+      case "table":
+        children.push(
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [
+              new TableRow({
+                tableHeader: true,
+                children: block.header.map(
+                  (cell) =>
+                    new TableCell({
+                      children: [
+                        new Paragraph({
+                          children: [new TextRun({ text: cell, bold: true })],
+                        }),
+                      ],
+                    })
+                ),
+              }),
+              ...block.rows.map(
+                (row) =>
+                  new TableRow({
+                    children: row.map(
+                      (cell) =>
+                        new TableCell({
+                          children: [
+                            new Paragraph({ children: docxRuns(cell) }),
+                          ],
+                        })
+                    ),
+                  })
+              ),
+            ],
+          }),
+          new Paragraph({})
+        );
+        break;
+    }
+  }
+  const document = new Document({ sections: [{ children }] });
+  return new Uint8Array(await Packer.toBuffer(document));
+}
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const PAGE_MARGIN = 56;
+
+// The standard PDF fonts only cover WinAnsi, so anything else is replaced
+function pdfSafeText(text: string, font: PDFFont) {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\t/g, "    "))
+    .map((char) =>
+      char === "\n" || supported.has(char.codePointAt(0)!) ? char : "?"
+    )
+    .join("");
+}
+
+function wrapLine(text: string, font: PDFFont, size: number, width: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/(\s+)/)) {
+    const candidate = line + word;
+    if (line && font.widthOfTextAtSize(candidate.trimEnd(), size) > width) {
+      lines.push(line.trimEnd());
+      line = word.trimStart();
+    } else {
+      line = candidate;
+    }
+    // Break words longer than a whole line
+    while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+      let cut = line.length - 1;
+      while (
+        cut > 1 &&
+        font.widthOfTextAtSize(line.slice(0, cut), size) > width
+      ) {
+        cut--;
+      }
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  lines.push(line.trimEnd());
+  return lines;
+}
+
+async function renderPdf(layout: ExportLayout) {
+  const pdf = await PDFDocument.create();
+  if (layout.title) pdf.setTitle(layout.title);
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+  };
+  const width = PAGE_WIDTH - PAGE_MARGIN * 2;
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - PAGE_MARGIN;
+
+  const write = (
+    text: string,
+    {
+      font = fonts.regular,
+      size = 11,
+      indent = 0,
+      gray = false,
+    }: { font?: PDFFont; size?: number; indent?: number; gray?: boolean } = {}
+  ) => {
+    const lineHeight = size * 1.4;
+    for (const paragraphLine of pdfSafeText(text, font).split("\n")) {
+      for (const line of wrapLine(paragraphLine, font, size, width - indent)) {
+        if (y - lineHeight < PAGE_MARGIN) {
+          page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+          y = PAGE_HEIGHT - PAGE_MARGIN;
+        }
+        y -= lineHeight;
+        page.drawText(line, {
+          x: PAGE_MARGIN + indent,
+          y,
+          size,
+          font,
+          color: gray ? rgb(0.4, 0.4, 0.45) : rgb(0.1, 0.1, 0.12),
+        });
+      }
+    }
+  };
+  const gap = (points: number) => {
+    y -= points;
+  };
+
+  if (layout.title) {
+    write(layout.title, { font: fonts.bold, size: 20 });
+    gap(8);
+  }
+  const headingSizes = { 1: 16, 2: 14, 3: 12 };
+  for (const block of layout.blocks) {
+    switch (block.type) {
+      case "heading":
+        gap(6);
+        write(block.text, {
+          font: fonts.bold,
+          size: headingSizes[block.level],
+        });
+        break;
+      case "paragraph":
+        write(block.text, {
+          font: block.meta ? fonts.italic : fonts.regular,
+          size: block.meta ? 9 : 11,
+          gray: block.meta,
+        });
+        break;
+      case "list":
+        block.items.forEach((item, i) =>
+          write(`${block.ordered ? `${i + 1}.` : "•"} ${item}`, { indent: 12 })
+        );
+        break;
+      case "table":
+        // Rows as lines rather than ruled cells; wide tables still wrap
+        write(block.header.join("  |  "), { font: fonts.bold, size: 10 });
+        for (const row of block.rows) {
+          write(row.join("  |  "), { size: 10 });
+        }
+        break;
+    }
+    gap(6);
+  }
+  return pdf.save();
+}
+
+function fileBaseName(request: ExportRequest) {
+  const name =
+    request.kind === "document"
+      ? request.name.replace(/\.[^.]+$/, "")
+      : request.title ||
+        (request.kind === "summary" ? "summary-report" : "conversation");
+  return (
+    name
+      .replace(/[^\p{L}\p{N}\s._-]/gu, "")
+      .trim()
+      .replace(/\s+/g, "-")
+      .slice(0, 100) || "export"
+  );
+}
+
+// Render an export request to a downloadable file
+export async function renderExport(
+  request: ExportRequest
+): Promise<ExportFile> {
+  const { format } = request;
+  let body: Uint8Array;
+  if (format === "json") {
+    // The format is implied by the file, so it is left out of the data
+    body = encoder.encode(
+      JSON.stringify(
+        { ...request, format: undefined, exportedAt: new Date().toISOString() },
+        null,
+        2
+      )
+    );
+  } else {
+    const layout = layoutExport(request);
+    body =
+      format === "markdown"
+        ? encoder.encode(
+            request.kind === "document" ? request.text : renderMarkdown(layout)
+          )
+        : format === "docx"
+          ? await renderDocx(layout)
+          : await renderPdf(layout);
+  }
+  return {
+    filename: `${fileBaseName(request)}.${fileExtensions[format]}`,
+    contentType: contentTypes[format],
+    body,
+  };
+}
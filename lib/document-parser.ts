@@ -0,0 +1,341 @@
+import path from "path";
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+
+// Server-side text extraction for uploaded documents. Every supported format
+// is normalized to Markdown-like text (headings as "#" lines, tables as pipe
+// rows) with the structure also reported as offsets into that text.
+
+export type DocumentFormat = "text" | "markdown" | "pdf" | "docx";
+
+export interface DocumentHeading {
+  level: number;
+  text: string;
+  offset: number;
+}
+
+export interface DocumentPage {
+  number: number;
+  offset: number;
+  length: number;
+}
+
+export interface DocumentTable {
+  rows: string[][];
+  offset: number;
+}
+
+export interface ParsedDocument {
+  name: string;
+  format: DocumentFormat;
+  text: string;
+  headings: DocumentHeading[];
+  pages: DocumentPage[];
+  tables: DocumentTable[];
+}
+
+export type DocumentParseErrorCode =
+  "unsupported_format" | "corrupt_file" | "empty_document" | "too_large";
+
+export class DocumentParseError extends Error {
+  constructor(
+    public readonly code: DocumentParseErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "DocumentParseError";
+  }
+}
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const formatsByExtension: Record<string, DocumentFormat> = {
+  ".txt": "text",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".pdf": "pdf",
+  ".docx": "docx",
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(formatsByExtension);
+
+export function detectDocumentFormat(name: string): DocumentFormat | null {
+  return formatsByExtension[path.extname(name).toLowerCase()] || null;
+}
+
+// Accumulates blocks of normalized text while recording where each heading,
+// table and page starts
+function createDocumentBuilder() {
+  const blocks: string[] = [];
+  const headings: DocumentHeading[] = [];
+  const tables: DocumentTable[] = [];
+  const pages: DocumentPage[] = [];
+  let length = 0;
+
+  const push = (block: string) => {
+    if (blocks.length > 0) length += 2;
+    const offset = length;
+    blocks.push(block);
+    length += block.length;
+    return offset;
+  };
+
+  return {
+    get offset() {
+      return blocks.length > 0 ? length + 2 : 0;
+    },
+    heading(level: number, text: string) {
+      const clean = collapseWhitespace(text);
+      if (!clean) return;
+      const offset = push(`${"#".repeat(level)} ${clean}`);
+      headings.push({ level, text: clean, offset });
+    },
+    paragraph(text: string) {
+      const clean = text.trim();
+      if (clean) push(clean);
+    },
+    table(rows: string[][]) {
+      const cleanRows = rows
+        .map((row) => row.map((cell) => collapseWhitespace(cell)))
+        .filter((row) => row.some((cell) => cell));
+      if (cleanRows.length === 0) return;
+      const [header, ...body] = cleanRows;
+      const lines = [
+        `| ${header.join(" | ")} |`,
+        `| ${header.map(() => "---").join(" | ")} |`,
+        ...body.map((row) => `| ${row.join(" | ")} |`),
+      ];
+      const offset = push(lines.join("\n"));
+      tables.push({ rows: cleanRows, offset });
+    },
+    page(number: number, offset: number) {
+      pages.push({ number, offset, length: Math.max(0, length - offset) });
+    },
+    build(name: string, format: DocumentFormat): ParsedDocument {
+      return {
+        name,
+        format,
+        text: blocks.join("\n\n"),
+        headings,
+        pages,
+        tables,
+      };
+    },
+  };
+}
+
+type DocumentBuilder = ReturnType<typeof createDocumentBuilder>;
+
+function collapseWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function decodeText(data: Uint8Array, name: string) {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    throw new DocumentParseError(
+      "corrupt_file",
+      `"${name}" is not valid UTF-8 text`
+    );
+  }
+  if (text.includes("\u0000")) {
+    throw new DocumentParseError(
+      "corrupt_file",
+      `"${name}" looks like a binary file, not text`
+    );
+  }
+  return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+// The "| --- |" line under a Markdown table header
+const tableSeparatorPattern = /^\|?[\s:|-]+\|?$/;
+
+function splitTableRow(line: string) {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+function parseMarkdown(text: string, builder: DocumentBuilder) {
+  const lines = text.split("\n");
+  let paragraph: string[] = [];
+  const flush = () => {
+    builder.paragraph(paragraph.join("\n"));
+    paragraph = [];
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      builder.heading(heading[1].length, heading[2]);
+    } else if (line.trim().startsWith("|")) {
+      flush();
+      const rows: string[][] = [];
+      while (i < lines.length && lines[i].trim().startsWith("|")) {
+        if (!tableSeparatorPattern.test(lines[i].trim())) {
+          rows.push(splitTableRow(lines[i]));
+        }
+        i++;
+      }
+      i--;
+      builder.table(rows);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+}
+
+// Pipe tables in normalized document text, in order, each as its rows with
+// the header row first
+export function findTables(text: string): string[][][] {
+  const tables: string[][][] = [];
+  let rows: string[][] = [];
+  for (const line of [...text.split("\n"), ""]) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("|")) {
+      if (!tableSeparatorPattern.test(trimmed)) rows.push(splitTableRow(line));
+    } else if (rows.length > 0) {
+      tables.push(rows);
+      rows = [];
+    }
+  }
+  return tables;
+}
+
+function parsePlainText(text: string, builder: DocumentBuilder) {
+  for (const block of text.split(/\n\s*\n/)) {
+    builder.paragraph(block);
+  }
+}
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function htmlToText(html: string) {
+  return decodeEntities(
+    html.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")
+  );
+}
+
+// mammoth emits flat, well-formed HTML (headings, paragraphs, lists and
+// tables), so a block-level scan is enough to recover the structure
+function parseDocxHtml(html: string, builder: DocumentBuilder) {
+  const blockPattern = /<(h[1-6]|p|ul|ol|table)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  for (const [, tag, inner] of html.matchAll(blockPattern)) {
+    const name = tag.toLowerCase();
+    if (name.startsWith("h")) {
+      builder.heading(Number(name[1]), htmlToText(inner));
+    } else if (name === "p") {
+      builder.paragraph(htmlToText(inner));
+    } else if (name === "ul" || name === "ol") {
+      const items = Array.from(inner.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi))
+        .map(([, item], index) => {
+          const marker = name === "ol" ? `${index + 1}.` : "-";
+          return `${marker} ${collapseWhitespace(htmlToText(item))}`;
+        })
+        .join("\n");
+      builder.paragraph(items);
+    } else {
+      const rows = Array.from(
+        inner.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)
+      ).map(([, row]) =>
+        Array.from(row.matchAll(/<t[dh]\b[^>]*>([\s\S]*?)<\/t[dh]>/gi)).map(
+          ([, cell]) => htmlToText(cell)
+        )
+      );
+      builder.table(rows);
+    }
+  }
+}
+
+async function parseDocx(data: Uint8Array, builder: DocumentBuilder) {
+  const { value } = await mammoth.convertToHtml({
+    buffer: Buffer.from(data),
+  });
+  parseDocxHtml(value, builder);
+}
+
+async function parsePdf(data: Uint8Array, builder: DocumentBuilder) {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: false });
+  text.forEach((pageText, index) => {
+    const offset = builder.offset;
+    parsePlainText(pageText.replace(/\r\n?/g, "\n"), builder);
+    builder.page(index + 1, offset);
+  });
+}
+
+// Extract normalized text and structure from an uploaded document. Throws a
+// DocumentParseError for unsupported, oversized, corrupt or empty files.
+export async function parseDocument(
+  name: string,
+  data: Uint8Array
+): Promise<ParsedDocument> {
+  const format = detectDocumentFormat(name);
+  if (!format) {
+    const extension = path.extname(name).toLowerCase();
+    throw new DocumentParseError(
+      "unsupported_format",
+      extension === ".doc"
+        ? `"${name}" is a legacy Word file; save it as .docx and upload again`
+        : `"${name}" is not a supported file type (${SUPPORTED_EXTENSIONS.join(
+            ", "
+          )})`
+    );
+  }
+  if (data.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new DocumentParseError(
+      "too_large",
+      `"${name}" is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`
+    );
+  }
+
+  const builder = createDocumentBuilder();
+  if (format === "text") {
+    parsePlainText(decodeText(data, name), builder);
+  } else if (format === "markdown") {
+    parseMarkdown(decodeText(data, name), builder);
+  } else {
+    try {
+      if (format === "pdf") {
+        await parsePdf(data, builder);
+      } else {
+        await parseDocx(data, builder);
+      }
+    } catch (error) {
+      console.error(`Error parsing ${name}:`, error);
+      throw new DocumentParseError(
+        "corrupt_file",
+        `"${name}" could not be read; the file may be corrupt or password protected`
+      );
+    }
+  }
+
+  const document = builder.build(name, format);
+  if (!document.text.trim()) {
+    throw new DocumentParseError(
+      "empty_document",
+      format === "pdf"
+        ? `"${name}" has no extractable text; scanned PDFs are not supported`
+        : `"${name}" is empty`
+    );
+  }
+  return document;
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ChatModel } from "./chat-models";
+import { condenseDocuments, type SummaryProgress } from "./document-summarizer";
+
+// A model that answers every summary request with a short note after a
+// pause, tracking how many requests are in flight at once
+function fakeModel(contextWindow = 8000) {
+  const model = {
+    provider: "openai" as const,
+    model: "gpt-4",
+    contextWindow,
+    maxOutputTokens: 500,
+    calls: 0,
+    active: 0,
+    peak: 0,
+    async invoke() {
+      model.calls++;
+      model.active++;
+      model.peak = Math.max(model.peak, model.active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      model.active--;
+      return "A short note.";
+    },
+    async *stream() {
+      yield "A short note.";
+    },
+  };
+  return model satisfies ChatModel;
+}
+
+// Distinct paragraphs, so chunks split between them
+function longDocument(name: string, paragraphs: number) {
+  return {
+    name,
+    content: Array.from(
+      { length: paragraphs },
+      (_, index) =>
+        `Paragraph ${index} of ${name}. ${"Some text. ".repeat(150)}`
+    ).join("\n\n"),
+  };
+}
+
+describe("condenseDocuments", () => {
+  test("returns a document that fits whole", async () => {
+    const model = fakeModel();
+    const result = await condenseDocuments(
+      model,
+      [{ name: "short.txt", content: "Short." }],
+      1000
+    );
+    assert.equal(result.condensed, false);
+    assert.equal(model.calls, 0);
+  });
+
+  test("summarizes a few batches at a time and reports progress", async () => {
+    const model = fakeModel();
+    const progress: SummaryProgress[] = [];
+    const result = await condenseDocuments(
+      model,
+      [longDocument("report.txt", 100)],
+      2000,
+      { onProgress: (update) => progress.push(update) }
+    );
+    assert.equal(result.condensed, true);
+    assert.ok(model.calls > 4);
+    assert.ok(model.peak > 1 && model.peak <= 4);
+    const map = progress.filter((update) => update.stage === "map");
+    assert.equal(map[0].completed, 0);
+    assert.equal(map[map.length - 1].completed, map[0].total);
+  });
+
+  test("reuses the notes for the same document", async () => {
+    const model = fakeModel();
+    const document = longDocument("contract.txt", 30);
+    await condenseDocuments(model, [document], 2000);
+    const first = model.calls;
+    // A slightly different budget, as on the next turn of a conversation
+    const again = await condenseDocuments(model, [document], 1900);
+    assert.equal(model.calls, first);
+    assert.equal(again.condensed, true);
+    assert.ok(again.sources.length > 0);
+  });
+
+  test("caps the number of map calls for very long documents", async () => {
+    const model = fakeModel(4000);
+    const progress: SummaryProgress[] = [];
+    await condenseDocuments(model, [longDocument("book.txt", 400)], 2000, {
+      onProgress: (update) => progress.push(update),
+    });
+    const map = progress.filter((update) => update.stage === "map");
+    assert.equal(map[0].total, 32);
+    const reduce = progress.filter((update) => update.stage === "reduce");
+    assert.ok(model.calls <= 32 + reduce.length);
+  });
+});
@@ -0,0 +1,383 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { createHash } from "node:crypto";
+import type { ChatModel } from "./chat-models";
+import {
+  DEFAULT_CHUNK_SIZE,
+  chunkDocument,
+  type DocumentChunk,
+} from "./document-chunker";
+import {
+  documentSourceId,
+  formatSources,
+  sourceFromChunk,
+  type ContextSource,
+} from "./citations";
+import { renderPrompt, type RenderedPrompt } from "./prompt-registry";
+import { countTokens } from "./token-count";
+
+// Hierarchical (map-reduce) condensing for documents longer than a model's
+// context. Chunks are summarized in batches ("map"), then consecutive
+// summaries of the same file are merged ("reduce") until everything fits the
+// budget. Each summary remains a document source covering the character range
+// it was made from, so answers built on it still cite sections. The map notes
+// are kept per document, model and focus, so a conversation about one long
+// document pays for them once.
+
+export interface SummaryProgress {
+  stage: "map" | "reduce";
+  completed: number;
+  total: number;
+}
+
+export interface CondenseOptions {
+  // The user's request, so summaries keep what it needs
+  focus?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: SummaryProgress) => void;
+}
+
+export interface CondensedDocuments {
+  sources: ContextSource[];
+  // False when the documents fit whole and no summaries were made
+  condensed: boolean;
+  // Prompt template versions behind the summaries
+  promptVersions: string[];
+}
+
+// Text sent to a single map or reduce call, so summaries stay detailed even
+// with very large context windows
+const MAX_BATCH_TOKENS = 6000;
+// Room for the map and reduce instructions themselves
+const INSTRUCTION_TOKENS = 300;
+const MIN_SUMMARY_TOKENS = 80;
+const MAX_SUMMARY_TOKENS = 600;
+const MAX_REDUCE_LEVELS = 4;
+// Past this many map calls batches grow to the model's context window, and
+// past that only the start of the documents is summarized
+const MAX_MAP_CALLS = 32;
+// Map and reduce calls in flight at once
+const SUMMARY_CONCURRENCY = 4;
+const MAX_CACHED_NOTES = 16;
+
+interface MapNotes {
+  sources: ContextSource[];
+  promptVersion: string;
+}
+
+// Map notes by document set, model and focus, oldest first
+const noteCache = new Map<string, MapNotes>();
+
+function notesKey(
+  model: ChatModel,
+  documents: { name: string; content: string }[],
+  focus: string | undefined,
+  batchLimit: number
+) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        model.provider,
+        model.model,
+        batchLimit,
+        focus ?? "",
+        documents.map((document) => [document.name, document.content]),
+      ])
+    )
+    .digest("hex");
+}
+
+function cacheNotes(key: string, notes: MapNotes) {
+  noteCache.delete(key);
+  noteCache.set(key, notes);
+  if (noteCache.size > MAX_CACHED_NOTES) {
+    noteCache.delete(noteCache.keys().next().value!);
+  }
+}
+
+// Run `task` on every item, at most `limit` at a time, keeping the order.
+// After a failure no new items are started.
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  onCompleted?: (completed: number) => void
+) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let completed = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+      onCompleted?.(++completed);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+export function sourcesTokens(sources: ContextSource[], model: ChatModel) {
+  return countTokens(formatSources(sources), model);
+}
+
+// Group items in order into batches under `limit` tokens; an item over the
+// limit on its own gets a batch to itself
+function batchByTokens<T>(
+  items: T[],
+  tokens: (item: T) => number,
+  limit: number,
+  sameBatch: (previous: T, next: T) => boolean = () => true
+) {
+  const batches: T[][] = [];
+  let size = 0;
+  for (const item of items) {
+    const count = tokens(item);
+    const current = batches[batches.length - 1];
+    if (
+      current &&
+      size + count <= limit &&
+      sameBatch(current[current.length - 1], item)
+    ) {
+      current.push(item);
+      size += count;
+    } else {
+      batches.push([item]);
+      size = count;
+    }
+  }
+  return batches;
+}
+
+type Span = Pick<
+  ContextSource,
+  "filename" | "chunkIndex" | "start" | "end" | "heading"
+>;
+
+// A source spanning a run of consecutive chunks or notes from one file
+function spanningSource(parts: Span[], text: string): ContextSource {
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  const filename = first.filename ?? "";
+  const chunkIndex = first.chunkIndex ?? 0;
+  const start = first.start ?? 0;
+  const end = last.end ?? start;
+  return {
+    id: documentSourceId(filename, chunkIndex, start, end),
+    kind: "document",
+    filename,
+    chunkIndex,
+    start,
+    end,
+    heading: first.heading,
+    text,
+  };
+}
+
+function wordLimit(tokens: number) {
+  return Math.round(tokens * 0.75);
+}
+
+function summaryPrompt(
+  name: "condense-map" | "condense-reduce",
+  summaryTokens: number,
+  focus?: string
+) {
+  return renderPrompt(name, {
+    words: String(wordLimit(summaryTokens)),
+    focus: focus
+      ? `\nThe notes will be used to answer this request, so keep everything relevant to it: "${focus}"`
+      : "",
+  });
+}
+
+async function summarizeBatch(
+  model: ChatModel,
+  chunks: DocumentChunk[],
+  prompt: RenderedPrompt,
+  options: CondenseOptions
+) {
+  const first = chunks[0];
+  const last = chunks[chunks.length - 1];
+  const section = first.heading ? `, section "${first.heading}"` : "";
+  return model.invoke(
+    [
+      new SystemMessage(prompt.text),
+      new HumanMessage(
+        `File: ${first.filename} (characters ${first.start}-${last.end}${section})\n\n${chunks
+          .map((chunk) => chunk.text)
+          .join("\n\n")}`
+      ),
+    ],
+    { signal: options.signal }
+  );
+}
+
+async function mergeNotes(
+  model: ChatModel,
+  notes: ContextSource[],
+  prompt: RenderedPrompt,
+  options: CondenseOptions
+) {
+  return model.invoke(
+    [
+      new SystemMessage(prompt.text),
+      new HumanMessage(
+        notes
+          .map(
+            (note) =>
+              `Notes on characters ${note.start}-${note.end}${note.heading ? ` (section "${note.heading}")` : ""}:\n${note.text}`
+          )
+          .join("\n\n")
+      ),
+    ],
+    { signal: options.signal }
+  );
+}
+
+// Last resort when summaries still do not fit: drop trailing sources, then
+// cut the text of the one left
+function fitToBudget(
+  sources: ContextSource[],
+  budget: number,
+  model: ChatModel
+) {
+  let fitted = sources;
+  while (fitted.length > 1 && sourcesTokens(fitted, model) > budget) {
+    fitted = fitted.slice(0, -1);
+  }
+  let tokens = sourcesTokens(fitted, model);
+  while (fitted.length === 1 && tokens > budget && fitted[0].text) {
+    const [source] = fitted;
+    const keep = Math.floor((source.text.length * budget) / tokens) - 1;
+    fitted = [{ ...source, text: source.text.slice(0, Math.max(0, keep)) }];
+    tokens = sourcesTokens(fitted, model);
+  }
+  return fitted;
+}
+
+// Fit `documents` into `budget` tokens of prompt. Documents that fit are
+// returned whole, chunk by chunk; otherwise chunks are summarized and the
+// summaries merged level by level, so the result never exceeds the budget.
+export async function condenseDocuments(
+  model: ChatModel,
+  documents: { name: string; content: string }[],
+  budget: number,
+  options: CondenseOptions = {}
+): Promise<CondensedDocuments> {
+  // Each map or reduce call holds its instructions, a batch and the summary
+  const windowLimit = Math.max(
+    1,
+    model.contextWindow - INSTRUCTION_TOKENS - MAX_SUMMARY_TOKENS
+  );
+  const batchLimit = Math.min(MAX_BATCH_TOKENS, windowLimit);
+  // About three characters per token, so one chunk never overflows a batch
+  const chunkSize = Math.min(DEFAULT_CHUNK_SIZE, batchLimit * 3);
+  const chunks = documents.flatMap((document) =>
+    chunkDocument(document.name, document.content, { chunkSize, overlap: 0 })
+  );
+  const whole = chunks.map(sourceFromChunk);
+  if (sourcesTokens(whole, model) <= budget) {
+    return { sources: whole, condensed: false, promptVersions: [] };
+  }
+  const chunkTokens = (chunk: DocumentChunk) => countTokens(chunk.text, model);
+  const sameFile = (a: { filename?: string }, b: { filename?: string }) =>
+    a.filename === b.filename;
+  // Size each summary so that all of them together fit the budget
+  const summaryTokensFor = (count: number) =>
+    Math.min(
+      MAX_SUMMARY_TOKENS,
+      Math.max(MIN_SUMMARY_TOKENS, Math.floor((budget * 0.8) / count))
+    );
+
+  const key = notesKey(model, documents, options.focus, batchLimit);
+  let notes = noteCache.get(key);
+  if (!notes) {
+    let batches = batchByTokens(chunks, chunkTokens, batchLimit, sameFile);
+    if (batches.length > MAX_MAP_CALLS) {
+      batches = batchByTokens(chunks, chunkTokens, windowLimit, sameFile).slice(
+        0,
+        MAX_MAP_CALLS
+      );
+    }
+    const mapPrompt = summaryPrompt(
+      "condense-map",
+      summaryTokensFor(batches.length),
+      options.focus
+    );
+    const progress = (completed: number) =>
+      options.onProgress?.({ stage: "map", completed, total: batches.length });
+    progress(0);
+    notes = {
+      sources: await mapConcurrently(
+        batches,
+        SUMMARY_CONCURRENCY,
+        async (batch) =>
+          spanningSource(
+            batch,
+            (await summarizeBatch(model, batch, mapPrompt, options)).trim()
+          ),
+        progress
+      ),
+      promptVersion: mapPrompt.version,
+    };
+  }
+  cacheNotes(key, notes);
+  const promptVersions = [notes.promptVersion];
+  let sources = notes.sources;
+
+  for (
+    let level = 0;
+    level < MAX_REDUCE_LEVELS && sourcesTokens(sources, model) > budget;
+    level++
+  ) {
+    const groups = batchByTokens(
+      sources,
+      (source) => countTokens(source.text, model),
+      batchLimit,
+      sameFile
+    );
+    // Nothing left to merge within a file
+    if (groups.length === sources.length) break;
+    const reducePrompt = summaryPrompt(
+      "condense-reduce",
+      summaryTokensFor(groups.length),
+      options.focus
+    );
+    if (!promptVersions.includes(reducePrompt.version)) {
+      promptVersions.push(reducePrompt.version);
+    }
+    const progress = (completed: number) =>
+      options.onProgress?.({
+        stage: "reduce",
+        completed,
+        total: groups.length,
+      });
+    progress(0);
+    sources = await mapConcurrently(
+      groups,
+      SUMMARY_CONCURRENCY,
+      async (group) =>
+        group.length === 1
+          ? group[0]
+          : spanningSource(
+              group,
+              (await mergeNotes(model, group, reducePrompt, options)).trim()
+            ),
+      progress
+    );
+  }
+
+  return {
+    sources: fitToBudget(sources, budget, model),
+    condensed: true,
+    promptVersions,
+  };
+}
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { citationSchema } from "./citations";
+import { analysisResultSchema } from "./document-analysis";
+
+// What /api/export accepts, shared by the route and the pages that download
+// from it. Rendering lives in document-export so the DOCX and PDF libraries
+// stay out of the client bundle.
+
+export const EXPORT_FORMATS = ["markdown", "docx", "pdf", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  markdown: "Markdown",
+  docx: "Word (DOCX)",
+  pdf: "PDF",
+  json: "JSON",
+};
+
+const exportMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  timestamp: z.string().datetime().optional(),
+  taskType: z.string().max(50).optional(),
+  reasoningSteps: z.array(z.string()).optional(),
+  citations: z.array(citationSchema).optional(),
+  attachments: z.array(z.string()).optional(),
+});
+
+export const exportRequestSchema = z.discriminatedUnion("kind", [
+  // A document as it stands, e.g. after applying suggested edits
+  z.object({
+    kind: z.literal("document"),
+    format: z.enum(EXPORT_FORMATS),
+    name: z.string().min(1).max(200),
+    text: z.string(),
+  }),
+  // One answer written up as a report, with its analysis and sources
+  z.object({
+    kind: z.literal("summary"),
+    format: z.enum(EXPORT_FORMATS),
+    title: z.string().max(200).optional(),
+    documentName: z.string().max(200).optional(),
+    summary: z.string(),
+    analysis: analysisResultSchema.optional(),
+    citations: z.array(citationSchema).optional(),
+  }),
+  z.object({
+    kind: z.literal("transcript"),
+    format: z.enum(EXPORT_FORMATS),
+    title: z.string().max(200).optional(),
+    documentName: z.string().max(200).optional(),
+    messages: z.array(exportMessageSchema).min(1),
+  }),
+]);
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+export type ExportMessage = z.infer<typeof exportMessageSchema>;
+
+const REVOKE_DELAY_MS = 60_000;
+
+// Request an export and save it under the filename the server chose
+export async function downloadExport(request: ExportRequest) {
+  const response = await fetch("/api/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Export failed");
+  }
+  const disposition = response.headers.get("content-disposition") || "";
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  const filename = encoded ? decodeURIComponent(encoded) : "export";
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so the blob URL
+  // has to outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
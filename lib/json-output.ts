@@ -0,0 +1,98 @@
+import {
+  AIMessage,
+  HumanMessage,
+  type BaseMessageLike,
+} from "@langchain/core/messages";
+import type { z } from "zod";
+import type { ChatModel } from "./chat-models";
+import { renderPrompt } from "./prompt-registry";
+
+// Helpers for prompts whose reply must be a JSON object matching a zod
+// schema. Chat models cannot be forced into JSON across every provider, so
+// replies are parsed leniently and re-asked with the validation errors.
+
+export type JsonOutputResult<T> =
+  { success: true; data: T } | { success: false; error: string };
+
+export class JsonOutputError extends Error {
+  constructor(
+    public readonly issues: string,
+    public readonly attempts: number,
+    // The last thing the model said, for callers that can fall back to it
+    public readonly lastReply: string
+  ) {
+    super(`Model output did not match the schema: ${issues}`);
+    this.name = "JsonOutputError";
+  }
+}
+
+// Models often wrap JSON in fences or add a sentence around it
+export function parseJsonOutput<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): JsonOutputResult<T> {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { success: false, error: "No JSON object found" };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error}` };
+  }
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+  return { success: true, data: parsed.data };
+}
+
+// Invoke the model until its reply validates, feeding each failure back as
+// a correction request. Throws JsonOutputError after `maxAttempts` replies.
+// With `onText` the reply is streamed and each attempt's text so far is
+// passed to it, for callers that report progress from the partial JSON.
+export async function invokeForJson<T>(
+  model: ChatModel,
+  messages: BaseMessageLike[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  {
+    maxAttempts = 3,
+    signal,
+    onText,
+  }: {
+    maxAttempts?: number;
+    signal?: AbortSignal;
+    onText?: (text: string) => void;
+  } = {}
+): Promise<{ data: T; attempts: number }> {
+  const conversation = [...messages];
+  let reply = "";
+  let error = "";
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (onText) {
+      reply = "";
+      for await (const token of model.stream(conversation, { signal })) {
+        reply += token;
+        onText(reply);
+      }
+    } else {
+      reply = await model.invoke(conversation, { signal });
+    }
+    const parsed = parseJsonOutput(reply, schema);
+    if (parsed.success) return { data: parsed.data, attempts: attempt };
+    error = parsed.error;
+    console.warn(`JSON output attempt ${attempt} was invalid: ${error}`);
+    conversation.push(
+      new AIMessage(reply),
+      new HumanMessage(renderPrompt("json-correction", { error }).text)
+    );
+  }
+  throw new JsonOutputError(error, maxAttempts, reply);
+}
@@ -0,0 +1,130 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import {
+  cosineSimilarity,
+  matchesFilter,
+  scopeFilter,
+  scopeMetadata,
+  type VectorRecord,
+  type VectorStore,
+} from "./vector-store";
+
+// In-process vector store persisted as a JSON file. Queries are brute-force
+// cosine similarity, which is fine for a single user's documents and for
+// running the orchestrator offline. Scopes are plain metadata filters.
+
+export const DEFAULT_LOCAL_VECTOR_STORE_PATH = ".data/vectors.json";
+
+export interface LocalVectorStoreOptions {
+  filePath?: string;
+}
+
+interface LocalVectorFile {
+  version: 1;
+  records: VectorRecord[];
+}
+
+export function createLocalVectorStore({
+  filePath = DEFAULT_LOCAL_VECTOR_STORE_PATH,
+}: LocalVectorStoreOptions = {}): VectorStore {
+  const resolvedPath = path.resolve(filePath);
+  let records: Map<string, VectorRecord> | undefined;
+  // Mutations are applied one at a time so concurrent writes cannot interleave
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async () => {
+    if (records) return records;
+    try {
+      const file: LocalVectorFile = JSON.parse(
+        await readFile(resolvedPath, "utf-8")
+      );
+      records = new Map(file.records.map((record) => [record.id, record]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      records = new Map();
+    }
+    return records;
+  };
+
+  const persist = async (current: Map<string, VectorRecord>) => {
+    const file: LocalVectorFile = {
+      version: 1,
+      records: Array.from(current.values()),
+    };
+    await mkdir(path.dirname(resolvedPath), { recursive: true });
+    const tempPath = `${resolvedPath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(file));
+    await rename(tempPath, resolvedPath);
+  };
+
+  const mutate = (change: (current: Map<string, VectorRecord>) => void) => {
+    const run = queue.then(async () => {
+      const current = await load();
+      change(current);
+      await persist(current);
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    backend: "local",
+    async upsert(scope, newRecords) {
+      await mutate((current) => {
+        for (const record of newRecords) {
+          current.set(record.id, {
+            ...record,
+            metadata: { ...record.metadata, ...scopeMetadata(scope) },
+          });
+        }
+      });
+    },
+    async query(scope, { vector, topK, filter }) {
+      const current = await load();
+      const inScope = scopeFilter(scope, filter);
+      return Array.from(current.values())
+        .filter((record) => matchesFilter(record.metadata, inScope))
+        .map((record) => ({
+          id: record.id,
+          score: cosineSimilarity(record.values, vector),
+          metadata: record.metadata,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+    async delete(scope, ids) {
+      const inScope = scopeFilter(scope);
+      await mutate((current) => {
+        for (const id of ids) {
+          const record = current.get(id);
+          if (record && matchesFilter(record.metadata, inScope)) {
+            current.delete(id);
+          }
+        }
+      });
+    },
+    async stats(scope) {
+      const current = await load();
+      const inScope = scopeFilter(scope);
+      const records = Array.from(current.values()).filter((record) =>
+        matchesFilter(record.metadata, inScope)
+      );
+      return {
+        backend: "local",
+        totalVectors: records.length,
+        dimension: records[0]?.values.length,
+        details: { filePath: resolvedPath, scope },
+      };
+    },
+    async clear(scope) {
+      const inScope = scopeFilter(scope);
+      await mutate((current) => {
+        for (const [id, record] of current) {
+          if (matchesFilter(record.metadata, inScope)) current.delete(id);
+        }
+      });
+    },
+  };
+}
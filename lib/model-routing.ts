@@ -0,0 +1,205 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import {
+  createChatModel,
+  type ChatModel,
+  type ModelConfig,
+} from "./chat-models";
+import { getConfig, isModelAvailable } from "./config";
+import type { TaskType } from "./advanced-ai-orchestrator";
+
+// Which model handles which job. Every task type has a route, plus
+// "classification" for the task classifier, "planning" for splitting compound
+// requests into steps, "tools" for choosing tool calls (a provider with
+// function calling; others skip tools), "verification" for checking answers
+// against their sources, "chat" for /api/chat, "edit" for suggested edits in
+// /api/chat, "title" for naming chat sessions and "extraction" for
+// /api/extract.
+// Routes from MODEL_ROUTES_PATH (default config/model-routes.json) override
+// the defaults below task by task, so changing the model behind a task never
+// touches handler code. When a route's provider is not configured the task
+// falls back to another route whose provider is.
+
+export type ModelTask =
+  | TaskType
+  | "classification"
+  | "planning"
+  | "tools"
+  | "verification"
+  | "chat"
+  | "edit"
+  | "title"
+  | "extraction";
+
+export const DEFAULT_MODEL_ROUTES: Record<ModelTask, ModelConfig> = {
+  classification: { provider: "ollama" },
+  planning: { provider: "gemini", model: "gemini-pro", temperature: 0 },
+  tools: { provider: "openai", model: "gpt-3.5-turbo", temperature: 0 },
+  verification: { provider: "gemini", model: "gemini-pro", temperature: 0 },
+  qa: { provider: "ollama" },
+  reasoning: { provider: "ollama" },
+  writing: { provider: "gemini", model: "gemini-pro" },
+  reading: { provider: "gemini", model: "gemini-pro" },
+  analysis: { provider: "gemini", model: "gemini-pro" },
+  creative: { provider: "gemini", model: "gemini-pro" },
+  compare: { provider: "gemini", model: "gemini-pro", temperature: 0.2 },
+  chat: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.7,
+    maxTokens: 1000,
+  },
+  edit: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.2,
+    maxTokens: 2000,
+  },
+  title: {
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    temperature: 0.3,
+    maxTokens: 20,
+  },
+  extraction: { provider: "gemini", model: "gemini-pro", temperature: 0 },
+};
+
+const modelConfigSchema = z.object({
+  provider: z.enum(["openai", "gemini", "ollama", "openai-compatible"]),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  contextWindow: z.number().int().positive().optional(),
+  baseUrl: z.string().url().optional(),
+  apiKeyEnv: z.string().min(1).optional(),
+});
+
+const modelRoutesSchema = z
+  .object(
+    Object.fromEntries(
+      Object.keys(DEFAULT_MODEL_ROUTES).map((task) => [
+        task,
+        modelConfigSchema.optional(),
+      ])
+    ) as Record<ModelTask, z.ZodOptional<typeof modelConfigSchema>>
+  )
+  .strict();
+
+const DEFAULT_MODEL_ROUTES_PATH = "config/model-routes.json";
+
+export class ModelUnavailableError extends Error {
+  constructor(task: ModelTask) {
+    super(
+      `No configured chat model can handle "${task}"; set OPENAI_API_KEY, GOOGLE_API_KEY or OLLAMA_BASE_URL and OLLAMA_MODEL`
+    );
+    this.name = "ModelUnavailableError";
+  }
+}
+
+export interface ResolvedModelRoute {
+  config: ModelConfig;
+  // True when the configured route was unavailable and another was used
+  fallback: boolean;
+}
+
+// A broken routes file is reported and ignored rather than taking every
+// route down with it
+function loadModelRoutes(): {
+  routes: Record<ModelTask, ModelConfig>;
+  warnings: string[];
+} {
+  const filePath = path.resolve(
+    getConfig().modelRoutesPath || DEFAULT_MODEL_ROUTES_PATH
+  );
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { routes: DEFAULT_MODEL_ROUTES, warnings: [] };
+    }
+    return {
+      routes: DEFAULT_MODEL_ROUTES,
+      warnings: [`Could not read model routes from ${filePath}: ${error}`],
+    };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return {
+      routes: DEFAULT_MODEL_ROUTES,
+      warnings: [
+        `Model routes in ${filePath} are not valid JSON; using defaults`,
+      ],
+    };
+  }
+  const parsed = modelRoutesSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      routes: DEFAULT_MODEL_ROUTES,
+      warnings: [
+        `Invalid model routes in ${filePath} (${parsed.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")}); using defaults`,
+      ],
+    };
+  }
+  return { routes: { ...DEFAULT_MODEL_ROUTES, ...parsed.data }, warnings: [] };
+}
+
+let modelRoutes: ReturnType<typeof loadModelRoutes> | undefined;
+const chatModels = new Map<ModelTask, ChatModel>();
+
+export function getModelRoutes() {
+  modelRoutes ??= loadModelRoutes();
+  for (const warning of modelRoutes.warnings.splice(0)) {
+    console.error(warning);
+    getConfig().warnings.push(warning);
+  }
+  return modelRoutes.routes;
+}
+
+// Ollama routes without their own endpoint or model use OLLAMA_BASE_URL and
+// OLLAMA_MODEL
+function withDefaults(model: ModelConfig): ModelConfig {
+  if (model.provider !== "ollama") return model;
+  const { ollama } = getConfig();
+  return {
+    ...model,
+    baseUrl: model.baseUrl || ollama.baseUrl,
+    model: model.model || ollama.model,
+  };
+}
+
+// The task's own route if its provider is configured, otherwise the "chat"
+// route, otherwise the first other route that is
+export function resolveModelRoute(task: ModelTask): ResolvedModelRoute | null {
+  const routes = getModelRoutes();
+  const candidates = [routes[task], routes.chat, ...Object.values(routes)];
+  for (const candidate of candidates) {
+    const config = withDefaults(candidate);
+    if (isModelAvailable(config)) {
+      return { config, fallback: candidate !== routes[task] };
+    }
+  }
+  return null;
+}
+
+// The chat model for a task, created on first use
+export function getChatModel(task: ModelTask): ChatModel {
+  let model = chatModels.get(task);
+  if (!model) {
+    const route = resolveModelRoute(task);
+    if (!route) throw new ModelUnavailableError(task);
+    if (route.fallback) {
+      console.warn(
+        `Model route for "${task}" is unavailable; using ${route.config.provider} ${route.config.model}`
+      );
+    }
+    model = createChatModel(route.config);
+    chatModels.set(task, model);
+  }
+  return model;
+}
@@ -0,0 +1,167 @@
+import { Pinecone, type RecordMetadata } from "@pinecone-database/pinecone";
+import {
+  scopeFilter,
+  scopeMetadata,
+  type MemoryScope,
+  type VectorFilter,
+  type VectorMetadata,
+  type VectorStore,
+} from "./vector-store";
+
+// Each user gets their own namespace, so user-wide stats and clear are
+// native namespace operations. Session records are also stored under a
+// "<sessionId>#" id prefix, which lets a session be cleared by listing its
+// ids (serverless indexes cannot delete by metadata filter).
+
+// Pinecone accepts at most this many vectors per upsert request
+const UPSERT_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+const EMBEDDING_DIMENSION = 1536;
+
+export interface PineconeVectorStoreOptions {
+  apiKey?: string;
+  indexName?: string;
+}
+
+function toPineconeFilter(filter: VectorFilter) {
+  return Object.fromEntries(
+    Object.entries(filter).map(([key, value]) => [key, { $eq: value }])
+  );
+}
+
+export function createPineconeVectorStore({
+  apiKey,
+  indexName,
+}: PineconeVectorStoreOptions): VectorStore {
+  if (!apiKey || !indexName) {
+    throw new Error(
+      "PINECONE_API_KEY and PINECONE_INDEX are required for the Pinecone vector store"
+    );
+  }
+  const pinecone = new Pinecone({ apiKey });
+  const index = pinecone.Index<RecordMetadata>(indexName);
+
+  // Create the serverless index on first use instead of at import time
+  let ready: Promise<void> | undefined;
+  const ensureIndex = () => {
+    ready ??= (async () => {
+      const indexes = await pinecone.listIndexes();
+      const indexExists = indexes.indexes?.some((i) => i.name === indexName);
+      if (!indexExists) {
+        await pinecone.createIndex({
+          name: indexName,
+          dimension: EMBEDDING_DIMENSION,
+          metric: "cosine",
+          spec: {
+            serverless: {
+              cloud: "aws",
+              region: "us-east-1",
+            },
+          },
+          waitUntilReady: true,
+        });
+        console.log("Pinecone index created");
+      }
+    })().catch((error) => {
+      ready = undefined;
+      throw error;
+    });
+    return ready;
+  };
+
+  const namespaceFor = (scope: MemoryScope) => index.namespace(scope.userId);
+  const sessionPrefix = (scope: MemoryScope) =>
+    scope.sessionId ? `${scope.sessionId}#` : "";
+  const toStoredId = (scope: MemoryScope, id: string) =>
+    `${sessionPrefix(scope)}${id}`;
+
+  // Every stored id in a session, a page at a time
+  async function* listSessionIds(scope: MemoryScope) {
+    let paginationToken: string | undefined;
+    do {
+      const page = await namespaceFor(scope).listPaginated({
+        prefix: sessionPrefix(scope),
+        paginationToken,
+      });
+      const ids = (page.vectors || [])
+        .map((vector) => vector.id)
+        .filter((id): id is string => Boolean(id));
+      if (ids.length > 0) yield ids;
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+  }
+
+  return {
+    backend: "pinecone",
+    async upsert(scope, records) {
+      await ensureIndex();
+      const namespace = namespaceFor(scope);
+      const scoped = records.map((record) => ({
+        ...record,
+        id: toStoredId(scope, record.id),
+        metadata: { ...record.metadata, ...scopeMetadata(scope) },
+      }));
+      for (let i = 0; i < scoped.length; i += UPSERT_BATCH_SIZE) {
+        await namespace.upsert(scoped.slice(i, i + UPSERT_BATCH_SIZE));
+      }
+    },
+    async query(scope, { vector, topK, filter }) {
+      await ensureIndex();
+      const results = await namespaceFor(scope).query({
+        vector,
+        topK,
+        filter: toPineconeFilter(scopeFilter(scope, filter)),
+        includeMetadata: true,
+        includeValues: false,
+      });
+      const prefix = sessionPrefix(scope);
+      return results.matches.map((match) => ({
+        id: prefix ? match.id.slice(prefix.length) : match.id,
+        score: match.score ?? 0,
+        metadata: (match.metadata || {}) as VectorMetadata,
+      }));
+    },
+    async delete(scope, ids) {
+      if (ids.length === 0) return;
+      await ensureIndex();
+      await namespaceFor(scope).deleteMany(
+        ids.map((id) => toStoredId(scope, id))
+      );
+    },
+    async stats(scope) {
+      await ensureIndex();
+      const indexStats = await index.describeIndexStats();
+      let totalVectors =
+        indexStats.namespaces?.[scope.userId]?.recordCount ?? 0;
+      if (scope.sessionId && totalVectors > 0) {
+        totalVectors = 0;
+        for await (const ids of listSessionIds(scope)) {
+          totalVectors += ids.length;
+        }
+      }
+      return {
+        backend: "pinecone",
+        totalVectors,
+        dimension: indexStats.dimension,
+        details: { namespace: scope.userId, sessionId: scope.sessionId },
+      };
+    },
+    async clear(scope) {
+      await ensureIndex();
+      // Deleting from a namespace that was never written to is an error
+      const indexStats = await index.describeIndexStats();
+      if (!indexStats.namespaces?.[scope.userId]) return;
+      const namespace = namespaceFor(scope);
+      if (!scope.sessionId) {
+        await namespace.deleteAll();
+        return;
+      }
+      // Collect first so deletes do not shift the pages being listed
+      const ids: string[] = [];
+      for await (const page of listSessionIds(scope)) ids.push(...page);
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await namespace.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+      }
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { getConfig } from "./config";
+
+// Prompt templates, one Markdown file per version under PROMPTS_PATH
+// (default config/prompts). Each file starts with a header naming the
+// template, its version and the variables it uses:
+//
+//   ---
+//   name: writing
+//   version: 2
+//   variables: context, input
+//   ---
+//   You are an expert writing assistant... {{context}} ...
+//
+// The highest valid version of each template is used, so a prompt is tuned
+// by adding a file and rolled back by removing it. The variables each
+// template takes are fixed here, so callers are type-checked and a file that
+// uses other variables is reported and skipped.
+
+export const PROMPT_VARIABLES = {
+  "classify-system": [],
+  classify: ["context", "input"],
+  writing: ["context", "input"],
+  reading: ["context", "input", "citationInstructions"],
+  analysis: ["instructions", "citationInstructions"],
+  compare: ["instructions"],
+  qa: ["context"],
+  reasoning: ["context"],
+  creative: ["context", "input"],
+  plan: ["taskTypes", "maxSteps"],
+  tools: ["files"],
+  verify: ["evidence"],
+  revise: ["evidence", "issues"],
+  "chat-assistant": [],
+  "chat-document": ["document"],
+  "chat-condensed": ["notes"],
+  "chat-edit": ["document", "instructions"],
+  extract: ["fields"],
+  "session-title": [],
+  "summarize-history": ["words"],
+  "condense-map": ["words", "focus"],
+  "condense-reduce": ["words", "focus"],
+  "json-correction": ["error"],
+  "prose-answer": [],
+} as const satisfies Record<string, readonly string[]>;
+
+export type PromptName = keyof typeof PROMPT_VARIABLES;
+
+export type PromptVariables<N extends PromptName> = Record<
+  (typeof PROMPT_VARIABLES)[N][number],
+  string
+>;
+
+export interface RenderedPrompt {
+  text: string;
+  // "<name>@<version>", recorded with the response the prompt produced
+  version: string;
+}
+
+interface PromptTemplate {
+  name: PromptName;
+  version: number;
+  body: string;
+}
+
+const DEFAULT_PROMPTS_PATH = "config/prompts";
+
+const frontMatterPattern = /^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/;
+const placeholderPattern = /\{\{\s*(\w+)\s*\}\}/g;
+
+const headerSchema = z.object({
+  name: z.enum(Object.keys(PROMPT_VARIABLES) as [PromptName, ...PromptName[]]),
+  version: z.coerce.number().int().positive(),
+  variables: z
+    .string()
+    .default("")
+    .transform((list) =>
+      list
+        .split(",")
+        .map((variable) => variable.trim())
+        .filter(Boolean)
+    ),
+  description: z.string().optional(),
+});
+
+export class PromptUnavailableError extends Error {
+  constructor(name: PromptName) {
+    super(`No valid prompt template named "${name}" was found`);
+    this.name = "PromptUnavailableError";
+  }
+}
+
+function parseTemplate(source: string): PromptTemplate | string {
+  const match = source.match(frontMatterPattern);
+  if (!match) return "it has no --- header";
+  const header = Object.fromEntries(
+    match[1]
+      .split(/\r?\n/)
+      .map((line) => line.match(/^(\w+):\s*(.*)$/))
+      .filter((entry) => entry !== null)
+      .map(([, key, value]) => [key, value.trim()])
+  );
+  const parsed = headerSchema.safeParse(header);
+  if (!parsed.success) {
+    return parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+  }
+  const { name, version, variables } = parsed.data;
+  const expected: readonly string[] = PROMPT_VARIABLES[name];
+  const declared = new Set(variables);
+  if (
+    declared.size !== expected.length ||
+    expected.some((variable) => !declared.has(variable))
+  ) {
+    return `"${name}" takes the variables ${expected.join(", ") || "(none)"}`;
+  }
+  const unknown = Array.from(match[2].matchAll(placeholderPattern))
+    .map(([, variable]) => variable)
+    .filter((variable) => !declared.has(variable));
+  if (unknown.length > 0) {
+    return `it uses undeclared variables ${unknown.join(", ")}`;
+  }
+  return { name, version, body: match[2].trim() };
+}
+
+// Broken files are reported and skipped rather than taking every prompt
+// down with them
+function loadPrompts(): {
+  templates: Map<PromptName, PromptTemplate>;
+  warnings: string[];
+} {
+  const directory = path.resolve(
+    getConfig().promptsPath || DEFAULT_PROMPTS_PATH
+  );
+  const templates = new Map<PromptName, PromptTemplate>();
+  const warnings: string[] = [];
+  let files: string[];
+  try {
+    files = readdirSync(directory).filter((file) => file.endsWith(".md"));
+  } catch (error) {
+    return {
+      templates,
+      warnings: [`Could not read prompts from ${directory}: ${error}`],
+    };
+  }
+  for (const file of files.sort()) {
+    const filePath = path.join(directory, file);
+    let template: PromptTemplate | string;
+    try {
+      template = parseTemplate(readFileSync(filePath, "utf-8"));
+    } catch (error) {
+      template = `${error}`;
+    }
+    if (typeof template === "string") {
+      warnings.push(`Skipping prompt ${filePath}: ${template}`);
+      continue;
+    }
+    const current = templates.get(template.name);
+    if (current?.version === template.version) {
+      warnings.push(
+        `Skipping prompt ${filePath}: ${template.name} version ${template.version} is defined twice`
+      );
+    } else if (!current || template.version > current.version) {
+      templates.set(template.name, template);
+    }
+  }
+  return { templates, warnings };
+}
+
+let prompts: ReturnType<typeof loadPrompts> | undefined;
+
+function getTemplate(name: PromptName) {
+  prompts ??= loadPrompts();
+  for (const warning of prompts.warnings.splice(0)) {
+    console.error(warning);
+    getConfig().warnings.push(warning);
+  }
+  const template = prompts.templates.get(name);
+  if (!template) throw new PromptUnavailableError(name);
+  return template;
+}
+
+// Fill in a template in one pass, so placeholders inside the values (a
+// document that mentions {{input}}, say) are left as they are
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables<N>
+): RenderedPrompt {
+  const template = getTemplate(name);
+  const values: Record<string, string> = variables;
+  return {
+    text: template.body.replace(
+      placeholderPattern,
+      (placeholder, variable: string) => values[variable] ?? placeholder
+    ),
+    version: `${template.name}@${template.version}`,
+  };
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+// Reasoning answers come back as JSON: the steps taken to reach the answer,
+// each a premise, what follows from it and the conclusion drawn, plus the
+// answer itself. The steps are shown as a trace under the answer.
+
+export const reasoningStepSchema = z.object({
+  premise: z.string().min(1),
+  inference: z.string().min(1),
+  conclusion: z.string().min(1),
+  // How sure the model is of this step, 0 to 1
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+export type ReasoningStep = z.infer<typeof reasoningStepSchema>;
+
+export const MAX_REASONING_STEPS = 12;
+
+// The reasoning model's reply
+export const reasoningReplySchema = z.object({
+  steps: z.array(reasoningStepSchema).min(1).max(MAX_REASONING_STEPS),
+  answer: z.string().min(1),
+});
+
+export type ReasoningReply = z.infer<typeof reasoningReplySchema>;
+
+// Steps whose conclusion a partial reply has finished. The answer is shown
+// only once the whole reply validates, so these are the progress meanwhile.
+const completedConclusion = /"conclusion"\s*:\s*"(?:[^"\\]|\\.)*"/g;
+
+export function countCompletedSteps(partialReply: string) {
+  return partialReply.match(completedConclusion)?.length ?? 0;
+}
+
+// One line per step, for exports and other plain-text uses
+export function formatReasoningStep(step: ReasoningStep) {
+  const confidence =
+    step.confidence === undefined
+      ? ""
+      : ` (${Math.round(step.confidence * 100)}% confident)`;
+  return `${step.premise} → ${step.inference} → ${step.conclusion}${confidence}`;
+}
@@ -0,0 +1,247 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { getConfig } from "./config";
+import type { SuggestedEdit } from "./suggested-edits";
+
+// DocMind chat sessions, one JSON file per session under SESSION_STORE_PATH
+// (default .data/sessions). Each session keeps its message history and the
+// document attached to it so both can be restored from the sidebar.
+// Sessions belong to the user who created them (see user-identity); every
+// lookup is scoped by that id, and another user's session reads as missing.
+
+export const DEFAULT_SESSION_STORE_PATH = ".data/sessions";
+export const DEFAULT_SESSION_TITLE = "New Chat";
+
+export interface SessionMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+  fileAttached?: string;
+  // Tracked changes suggested for the session document
+  edits?: SuggestedEdit[];
+  // Prompt template version behind an assistant reply, e.g. "chat-document@1"
+  promptVersion?: string;
+}
+
+export interface SessionDocument {
+  name: string;
+  text: string;
+}
+
+export interface ChatSession {
+  id: string;
+  // Owner; sessions saved before ownership was recorded have none and are
+  // visible to nobody
+  userId?: string;
+  title: string;
+  // True once the title came from the first exchange or the user
+  titled: boolean;
+  // Prompt template version behind a generated title
+  titlePromptVersion?: string;
+  createdAt: string;
+  updatedAt: string;
+  document?: SessionDocument;
+  messages: SessionMessage[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  documentName?: string;
+}
+
+export type NewSessionMessage = Omit<SessionMessage, "id" | "createdAt"> &
+  Partial<Pick<SessionMessage, "id" | "createdAt">>;
+
+export class SessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Session ${id} was not found`);
+    this.name = "SessionNotFoundError";
+  }
+}
+
+const sessionIdPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function storeDirectory() {
+  return path.resolve(
+    getConfig().sessionStorePath || DEFAULT_SESSION_STORE_PATH
+  );
+}
+
+// Session ids end up in file names, so only accept real uuids
+function sessionPath(id: string) {
+  if (!sessionIdPattern.test(id)) throw new SessionNotFoundError(id);
+  return path.join(storeDirectory(), `${id}.json`);
+}
+
+export function toSessionSummary(session: ChatSession): ChatSessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.messages.length,
+    documentName: session.document?.name,
+  };
+}
+
+async function readSession(id: string): Promise<ChatSession> {
+  try {
+    return JSON.parse(await readFile(sessionPath(id), "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new SessionNotFoundError(id);
+    }
+    throw error;
+  }
+}
+
+async function readOwnedSession(
+  userId: string,
+  id: string
+): Promise<ChatSession> {
+  const session = await readSession(id);
+  if (session.userId !== userId) throw new SessionNotFoundError(id);
+  return session;
+}
+
+async function writeSession(session: ChatSession) {
+  const filePath = sessionPath(session.id);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(session, null, 2));
+  await rename(tempPath, filePath);
+}
+
+// Read-modify-write per session, one at a time, so concurrent requests for
+// the same session cannot drop each other's messages
+const pending = new Map<string, Promise<unknown>>();
+
+function updateSessionFile(
+  userId: string,
+  id: string,
+  change: (session: ChatSession) => void
+): Promise<ChatSession> {
+  const previous = pending.get(id) || Promise.resolve();
+  const run = previous.then(async () => {
+    const session = await readOwnedSession(userId, id);
+    change(session);
+    session.updatedAt = new Date().toISOString();
+    await writeSession(session);
+    return session;
+  });
+  const settled = run.catch(() => undefined);
+  pending.set(id, settled);
+  settled.then(() => {
+    if (pending.get(id) === settled) pending.delete(id);
+  });
+  return run;
+}
+
+export async function listSessions(
+  userId: string
+): Promise<ChatSessionSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(storeDirectory());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const sessions = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) =>
+        readSession(path.basename(file, ".json")).catch((error) => {
+          console.error(`Skipping unreadable session ${file}:`, error);
+          return null;
+        })
+      )
+  );
+  return sessions
+    .filter((session): session is ChatSession => session?.userId === userId)
+    .map(toSessionSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createSession(
+  userId: string,
+  options: { title?: string; document?: SessionDocument } = {}
+): Promise<ChatSession> {
+  const now = new Date().toISOString();
+  const session: ChatSession = {
+    id: uuidv4(),
+    userId,
+    title: options.title || DEFAULT_SESSION_TITLE,
+    titled: Boolean(options.title),
+    createdAt: now,
+    updatedAt: now,
+    document: options.document,
+    messages: [],
+  };
+  await writeSession(session);
+  return session;
+}
+
+export function getSession(userId: string, id: string): Promise<ChatSession> {
+  return readOwnedSession(userId, id);
+}
+
+// `document: null` detaches the session's document
+export function updateSession(
+  userId: string,
+  id: string,
+  changes: {
+    title?: string;
+    titlePromptVersion?: string;
+    document?: SessionDocument | null;
+  }
+): Promise<ChatSession> {
+  return updateSessionFile(userId, id, (session) => {
+    if (changes.title !== undefined) {
+      session.title = changes.title;
+      session.titled = true;
+      session.titlePromptVersion = changes.titlePromptVersion;
+    }
+    if (changes.document !== undefined) {
+      session.document = changes.document ?? undefined;
+    }
+  });
+}
+
+export async function deleteSession(userId: string, id: string): Promise<void> {
+  await readOwnedSession(userId, id);
+  await rm(sessionPath(id), { force: true });
+}
+
+export function appendMessages(
+  userId: string,
+  id: string,
+  messages: NewSessionMessage[]
+): Promise<ChatSession> {
+  return updateSessionFile(userId, id, (session) => {
+    const now = new Date().toISOString();
+    session.messages.push(
+      ...messages.map((message) => ({
+        ...message,
+        id: message.id || uuidv4(),
+        createdAt: message.createdAt || now,
+      }))
+    );
+  });
+}
+
+export function clearMessages(
+  userId: string,
+  id: string
+): Promise<ChatSession> {
+  return updateSessionFile(userId, id, (session) => {
+    session.messages = [];
+  });
+}
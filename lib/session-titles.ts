@@ -0,0 +1,46 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { getChatModel } from "./model-routing";
+import { renderPrompt } from "./prompt-registry";
+import type { SessionMessage } from "./session-store";
+
+const MAX_TITLE_LENGTH = 60;
+
+function truncate(text: string) {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= MAX_TITLE_LENGTH) return clean;
+  const cut = clean.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${cut.slice(0, lastSpace > 20 ? lastSpace : cut.length)}…`;
+}
+
+// Name a session after its first exchange. Uses the "title" model route and
+// falls back to the opening user message, with no prompt version, when no
+// model is available.
+export async function generateSessionTitle(
+  messages: SessionMessage[]
+): Promise<{ title: string; promptVersion?: string } | null> {
+  const questionIndex = messages.findIndex(
+    (message) => message.role === "user"
+  );
+  const question = messages[questionIndex];
+  const answer = messages
+    .slice(questionIndex + 1)
+    .find((message) => message.role === "assistant");
+  if (!question || !answer) return null;
+
+  try {
+    const prompt = renderPrompt("session-title", {});
+    const title = await getChatModel("title").invoke([
+      new SystemMessage(prompt.text),
+      new HumanMessage(
+        `User: ${question.content.slice(0, 1000)}\n\nAssistant: ${answer.content.slice(0, 1000)}`
+      ),
+    ]);
+    const clean = truncate(title.replace(/^["'\s]+|["'.\s]+$/g, ""));
+    if (clean) return { title: clean, promptVersion: prompt.version };
+  } catch (error) {
+    console.error("Error generating session title:", error);
+  }
+  const fallback = truncate(question.content);
+  return fallback ? { title: fallback } : null;
+}
@@ -0,0 +1,114 @@
+import type { ContextUsage, HistorySummary } from "./context-budget";
+import type { SummaryProgress } from "./document-summarizer";
+
+// Minimal server-sent events helpers shared by the streaming API routes and
+// the pages that consume them. Every event is a JSON object on a `data:` line.
+
+const encoder = new TextEncoder();
+
+export type SendEvent<E> = (event: E) => void;
+
+// Build a text/event-stream Response. `produce` pushes events through `send`
+// and the stream closes when it settles. Aborting `signal` (the client went
+// away or pressed stop) closes the stream without emitting anything more.
+export function createSSEResponse<E>(
+  produce: (send: SendEvent<E>) => Promise<void>,
+  signal?: AbortSignal
+): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      signal?.addEventListener("abort", close);
+      const send: SendEvent<E> = (event) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+        );
+      };
+      try {
+        await produce(send);
+      } catch (error) {
+        if (!signal?.aborted) {
+          console.error("Stream error:", error);
+        }
+      } finally {
+        signal?.removeEventListener("abort", close);
+        close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Read a text/event-stream Response body, calling `onEvent` for each event.
+export async function readSSE<E>(
+  response: Response,
+  onEvent: (event: E) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = rawEvent
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) {
+        onEvent(JSON.parse(data) as E);
+      }
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
+
+// Events emitted by POST /api/chat when called with `stream: true`
+export type ChatStreamEvent =
+  | { type: "token"; content: string }
+  // A long document being condensed before the reply starts
+  | ({ type: "summary_progress" } & SummaryProgress)
+  // How the prompt used the model's context, sent before the first token;
+  // the client sends historySummary back with its next request
+  | {
+      type: "context";
+      usage: ContextUsage;
+      // Version of the system prompt, e.g. "chat-document@1"
+      promptVersion: string;
+      historySummary?: HistorySummary;
+    }
+  | { type: "done" }
+  | { type: "error"; error: string };
+
+// Status line for a summary_progress event
+export function summaryProgressLabel({
+  stage,
+  completed,
+  total,
+}: SummaryProgress) {
+  const current = Math.min(completed + 1, total);
+  return stage === "map"
+    ? `Reading a long document: part ${current} of ${total}`
+    : `Combining notes: ${current} of ${total}`;
+}
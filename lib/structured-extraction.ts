@@ -0,0 +1,283 @@
+import { z } from "zod";
+
+// Field specs for structured extraction. Callers describe the fields they
+// want either as a JSON Schema object or as a compact spec such as
+// {"total": "number", "due": {"type": "date", "required": false}}; both are
+// normalized to ExtractionField and compiled to a zod schema for the reply.
+
+export const EXTRACTION_FIELD_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "date",
+] as const;
+export type ExtractionFieldType = (typeof EXTRACTION_FIELD_TYPES)[number];
+
+export interface ExtractionField {
+  name: string;
+  type: ExtractionFieldType;
+  // A list of `type` values rather than a single one
+  array: boolean;
+  required: boolean;
+  description?: string;
+  enum?: (string | number)[];
+}
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ExtractedField {
+  value: unknown;
+  confidence: number;
+  // Where in the document text the value was found, if it could be located
+  source: SourceSpan | null;
+}
+
+export class ExtractionSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionSchemaError";
+  }
+}
+
+export const MAX_EXTRACTION_FIELDS = 50;
+
+const fieldNamePattern = /^[A-Za-z_][\w-]{0,63}$/;
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const fieldSpecSchema = z.union([
+  z.string(),
+  z
+    .object({
+      type: z.union([z.string(), z.array(z.string())]).optional(),
+      format: z.string().optional(),
+      description: z.string().optional(),
+      required: z.boolean().optional(),
+      enum: z
+        .array(z.union([z.string(), z.number()]))
+        .min(1)
+        .optional(),
+      items: z
+        .object({
+          type: z.string().optional(),
+          format: z.string().optional(),
+          enum: z
+            .array(z.union([z.string(), z.number()]))
+            .min(1)
+            .optional(),
+        })
+        .passthrough()
+        .optional(),
+    })
+    .passthrough(),
+]);
+
+const jsonSchemaSchema = z
+  .object({
+    type: z.literal("object").optional(),
+    properties: z.record(z.unknown()),
+    required: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+function toFieldType(
+  name: string,
+  type: string | undefined,
+  format?: string
+): ExtractionFieldType {
+  if (type === "string" && (format === "date" || format === "date-time")) {
+    return "date";
+  }
+  const normalized = type ?? "string";
+  if ((EXTRACTION_FIELD_TYPES as readonly string[]).includes(normalized)) {
+    return normalized as ExtractionFieldType;
+  }
+  throw new ExtractionSchemaError(
+    `Field "${name}" has unsupported type "${normalized}"; use one of ${EXTRACTION_FIELD_TYPES.join(", ")} or an array of them`
+  );
+}
+
+function parseField(
+  name: string,
+  raw: unknown,
+  requiredByDefault: boolean
+): ExtractionField {
+  if (!fieldNamePattern.test(name)) {
+    throw new ExtractionSchemaError(`"${name}" is not a valid field name`);
+  }
+  const parsed = fieldSpecSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ExtractionSchemaError(`Field "${name}" has an invalid spec`);
+  }
+  const spec = parsed.data;
+
+  // Compact form: "number", "date?", "string[]"
+  if (typeof spec === "string") {
+    const match = spec.trim().match(/^(\w+)(\[\])?(\?)?$/);
+    if (!match) {
+      throw new ExtractionSchemaError(
+        `Field "${name}" has an invalid type "${spec}"`
+      );
+    }
+    return {
+      name,
+      type: toFieldType(name, match[1]),
+      array: Boolean(match[2]),
+      required: !match[3],
+    };
+  }
+
+  // JSON Schema allows ["string", "null"] for optional values
+  const types = Array.isArray(spec.type) ? spec.type : [spec.type];
+  const nullable = types.includes("null");
+  const type = types.find((t) => t !== "null");
+  const array = type === "array";
+  const itemSpec = array ? spec.items : spec;
+  if (array && !itemSpec) {
+    throw new ExtractionSchemaError(`Array field "${name}" needs "items"`);
+  }
+  const itemType = array ? spec.items?.type : type;
+  if (itemType === "object" || itemType === "array") {
+    throw new ExtractionSchemaError(
+      `Field "${name}" is nested; only flat fields and arrays of simple values are supported`
+    );
+  }
+  return {
+    name,
+    type: toFieldType(name, itemType, itemSpec?.format),
+    array,
+    required: !nullable && (spec.required ?? requiredByDefault),
+    description: spec.description,
+    enum: itemSpec?.enum,
+  };
+}
+
+// Accepts a JSON Schema ({"type": "object", "properties": ...}) or a compact
+// field spec object. Throws ExtractionSchemaError for anything else.
+export function parseExtractionFields(raw: unknown): ExtractionField[] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ExtractionSchemaError("schema must be a JSON object");
+  }
+  const jsonSchema = jsonSchemaSchema.safeParse(raw);
+  const fields = jsonSchema.success
+    ? Object.entries(jsonSchema.data.properties).map(([name, spec]) =>
+        parseField(
+          name,
+          spec,
+          jsonSchema.data.required?.includes(name) ?? false
+        )
+      )
+    : Object.entries(raw).map(([name, spec]) => parseField(name, spec, true));
+  if (fields.length === 0) {
+    throw new ExtractionSchemaError("schema must define at least one field");
+  }
+  if (fields.length > MAX_EXTRACTION_FIELDS) {
+    throw new ExtractionSchemaError(
+      `schema may define at most ${MAX_EXTRACTION_FIELDS} fields`
+    );
+  }
+  return fields;
+}
+
+function valueSchema(field: ExtractionField): z.ZodTypeAny {
+  let item: z.ZodTypeAny;
+  if (field.enum) {
+    const [first, ...rest] = field.enum.map((value) => z.literal(value));
+    item =
+      rest.length > 0 ? z.union([first, rest[0], ...rest.slice(1)]) : first;
+  } else {
+    switch (field.type) {
+      case "string":
+        item = z.string();
+        break;
+      case "number":
+        item = z.number();
+        break;
+      case "integer":
+        item = z.number().int();
+        break;
+      case "boolean":
+        item = z.boolean();
+        break;
+      case "date":
+        item = z
+          .string()
+          .regex(isoDatePattern, "must be an ISO 8601 date (YYYY-MM-DD)");
+        break;
+    }
+  }
+  const value = field.array ? z.array(item) : item;
+  return field.required ? value : value.nullable();
+}
+
+// The reply the model must produce: every field with its value, a 0-1
+// confidence and the exact passage it came from
+export function buildExtractionSchema(fields: ExtractionField[]) {
+  return z.object({
+    fields: z
+      .object(
+        Object.fromEntries(
+          fields.map((field) => [
+            field.name,
+            z.object({
+              value: valueSchema(field),
+              confidence: z.number().min(0).max(1),
+              quote: z.string().nullable(),
+            }),
+          ])
+        )
+      )
+      .strict(),
+  });
+}
+
+export function describeFields(fields: ExtractionField[]) {
+  return fields
+    .map((field) => {
+      const type = field.enum
+        ? `one of ${field.enum.map((value) => JSON.stringify(value)).join(" | ")}`
+        : field.type === "date"
+          ? "ISO 8601 date string"
+          : field.type;
+      const shape = field.array ? `array of ${type}` : type;
+      const optional = field.required ? "" : ", null if not present";
+      const description = field.description ? ` — ${field.description}` : "";
+      return `- ${field.name} (${shape}${optional})${description}`;
+    })
+    .join("\n");
+}
+
+export function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Find a quoted passage in the document at or after `from`: exactly, then
+// ignoring case and differences in whitespace
+export function locateQuote(
+  text: string,
+  quote: string,
+  from = 0
+): SourceSpan | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const exact = text.indexOf(trimmed, from);
+  if (exact !== -1) {
+    return { start: exact, end: exact + trimmed.length, text: trimmed };
+  }
+  const pattern = new RegExp(
+    trimmed.split(/\s+/).map(escapeRegExp).join("\\s+"),
+    "gi"
+  );
+  pattern.lastIndex = from;
+  const match = pattern.exec(text);
+  if (!match) return null;
+  return {
+    start: match.index,
+    end: match.index + match[0].length,
+    text: match[0],
+  };
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  MAX_SUGGESTED_EDITS,
+  applyEdits,
+  resolveEdits,
+  type EditProposal,
+} from "./suggested-edits";
+
+function proposal(original: string, replacement: string): EditProposal {
+  return { original, replacement, reason: "clearer" };
+}
+
+describe("resolveEdits", () => {
+  const text = "The cat sat on the mat. The cat was happy.";
+
+  test("places each quote in the document", () => {
+    const [edit] = resolveEdits(text, [proposal("sat on", "lay on")]);
+    assert.deepEqual(
+      { start: edit.start, end: edit.end, original: edit.original },
+      { start: 8, end: 14, original: "sat on" }
+    );
+    assert.equal(
+      applyEdits(text, [edit]),
+      "The cat lay on the mat. The cat was happy."
+    );
+  });
+
+  test("matches repeated phrases after the previous edit", () => {
+    const edits = resolveEdits(text, [
+      proposal("The cat", "A cat"),
+      proposal("The cat", "That cat"),
+    ]);
+    assert.deepEqual(
+      edits.map((edit) => edit.start),
+      [0, text.lastIndexOf("The cat")]
+    );
+  });
+
+  test("tolerates case and whitespace differences in the quote", () => {
+    const [edit] = resolveEdits("One  two\nthree.", [
+      proposal("one two three", "1 2 3"),
+    ]);
+    assert.equal(edit.original, "One  two\nthree");
+  });
+
+  test("drops quotes not found, unchanged text and overlaps", () => {
+    const edits = resolveEdits(text, [
+      proposal("the dog", "the fox"),
+      proposal("was happy", "was happy"),
+      proposal("on the mat", "on a rug"),
+      proposal("the mat. The", "the rug. A"),
+    ]);
+    assert.deepEqual(
+      edits.map((edit) => edit.original),
+      ["on the mat"]
+    );
+  });
+
+  test("trims a replacement padded like its quote", () => {
+    const [edit] = resolveEdits(text, [proposal(" was happy ", " was glad ")]);
+    assert.equal(edit.original, "was happy");
+    assert.equal(edit.replacement, "was glad");
+  });
+
+  test("returns edits in document order", () => {
+    const edits = resolveEdits(text, [
+      proposal("was happy", "was glad"),
+      proposal("sat", "lay"),
+    ]);
+    assert.deepEqual(
+      edits.map((edit) => edit.original),
+      ["sat", "was happy"]
+    );
+  });
+
+  test("stops at the edit limit", () => {
+    const long = Array.from(
+      { length: MAX_SUGGESTED_EDITS + 5 },
+      (_, index) => `word${index}`
+    ).join(" ");
+    const edits = resolveEdits(
+      long,
+      long.split(" ").map((word) => proposal(word, word.toUpperCase()))
+    );
+    assert.equal(edits.length, MAX_SUGGESTED_EDITS);
+  });
+
+  test("resolves nothing in an empty document", () => {
+    assert.deepEqual(resolveEdits("", [proposal("anything", "else")]), []);
+  });
+});
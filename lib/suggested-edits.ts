@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { locateQuote } from "./structured-extraction";
+
+// Suggested edits are targeted replacements the user accepts or rejects one
+// at a time, instead of a rewritten copy of the document. The model quotes
+// the text it wants to change and the server works out the character range,
+// since models are unreliable at counting offsets.
+
+export const MAX_SUGGESTED_EDITS = 50;
+
+export const suggestedEditSchema = z.object({
+  id: z.string().min(1).max(100),
+  // Range of `original` in the document text the edit was suggested for
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+  original: z.string(),
+  replacement: z.string(),
+  reason: z.string(),
+});
+
+export type SuggestedEdit = z.infer<typeof suggestedEditSchema>;
+
+export type EditDecision = "accepted" | "rejected";
+
+// The reply the model must produce
+export const editProposalsSchema = z.object({
+  summary: z.string(),
+  edits: z.array(
+    z.object({
+      original: z.string().min(1),
+      replacement: z.string(),
+      reason: z.string(),
+    })
+  ),
+});
+
+export type EditProposal = z.infer<typeof editProposalsSchema>["edits"][number];
+
+export const SUGGESTED_EDIT_INSTRUCTIONS = `Do not rewrite the document. Reply with JSON only, no Markdown fences or commentary:
+{"summary": string, "edits": [{"original": string, "replacement": string, "reason": string}]}
+- "summary" is one or two sentences describing the changes for the user.
+- "original" is text copied exactly from the document, long enough to be unambiguous (a phrase or sentence, not a single common word).
+- "replacement" is what that text should become; use "" to delete it.
+- "reason" briefly explains the change.
+List edits in document order, without overlaps, and at most ${MAX_SUGGESTED_EDITS} of them. Use an empty "edits" array if nothing needs changing.`;
+
+// Place each proposal in the document. Proposals that cannot be found, that
+// change nothing or that overlap an earlier edit are dropped.
+export function resolveEdits(
+  text: string,
+  proposals: EditProposal[]
+): SuggestedEdit[] {
+  const edits: SuggestedEdit[] = [];
+  // Proposals usually follow document order, so repeated phrases are
+  // matched after the previous edit before falling back to the start
+  let cursor = 0;
+  for (const proposal of proposals) {
+    if (edits.length >= MAX_SUGGESTED_EDITS) break;
+    const span =
+      locateQuote(text, proposal.original, cursor) ??
+      locateQuote(text, proposal.original);
+    if (!span) continue;
+    // locateQuote trims the quote, so trim a replacement padded to match
+    const replacement =
+      proposal.original.trim() === proposal.original
+        ? proposal.replacement
+        : proposal.replacement.trim();
+    if (span.text === replacement) continue;
+    if (edits.some((edit) => span.start < edit.end && edit.start < span.end)) {
+      continue;
+    }
+    edits.push({
+      id: `edit-${edits.length + 1}`,
+      start: span.start,
+      end: span.end,
+      original: span.text,
+      replacement,
+      reason: proposal.reason,
+    });
+    cursor = span.end;
+  }
+  return edits.sort((a, b) => a.start - b.start);
+}
+
+// Edits go stale once the document they were suggested for changes
+export function isEditCurrent(text: string, edit: SuggestedEdit) {
+  return text.slice(edit.start, edit.end) === edit.original;
+}
+
+// Apply edits to the text they were suggested for, skipping stale ones
+export function applyEdits(text: string, edits: SuggestedEdit[]) {
+  return edits
+    .filter((edit) => isEditCurrent(text, edit))
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (revised, edit) =>
+        revised.slice(0, edit.start) +
+        edit.replacement +
+        revised.slice(edit.end),
+      text
+    );
+}
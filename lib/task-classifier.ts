@@ -0,0 +1,210 @@
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { z } from "zod";
+import {
+  HELD_OUT_TASK_EXAMPLES,
+  TASK_EXAMPLES,
+  type TaskExample,
+} from "./task-examples";
+import { cosineSimilarity } from "./vector-store";
+
+// Nearest-neighbour task classification. The request's embedding, already
+// made for the memory search, is compared with embedded labeled examples; the
+// closest examples vote, weighted by similarity, and the winning share of the
+// vote is the confidence. The orchestrator asks a chat model only when the
+// vote is unsure or embeddings are off.
+
+export const TASK_TYPES = [
+  "writing",
+  "reading",
+  "qa",
+  "analysis",
+  "reasoning",
+  "creative",
+  "compare",
+] as const;
+export type TaskType = (typeof TASK_TYPES)[number];
+
+// How the task type was decided: picked by the caller, fixed by a rule,
+// voted by the examples, answered by the chat model, or the default
+export const CLASSIFICATION_METHODS = [
+  "override",
+  "rule",
+  "embedding",
+  "model",
+  "default",
+] as const;
+
+export const taskClassificationSchema = z.object({
+  taskType: z.enum(TASK_TYPES),
+  // Share of the example vote; null when no vote was taken
+  confidence: z.number().min(0).max(1).nullable(),
+  method: z.enum(CLASSIFICATION_METHODS),
+});
+
+export type TaskClassification = z.infer<typeof taskClassificationSchema>;
+
+// Examples that vote on each request
+const NEIGHBOURS = 7;
+// Lower values give the closest examples more of the vote
+const VOTE_TEMPERATURE = 0.05;
+// Below this the vote is treated as unsure
+export const MIN_EMBEDDING_CONFIDENCE = 0.55;
+
+export interface RequestShape {
+  // Documents attached to the request; comparing needs two
+  fileCount: number;
+}
+
+export function allowedTaskTypes({ fileCount }: RequestShape): TaskType[] {
+  return TASK_TYPES.filter((task) => task !== "compare" || fileCount >= 2);
+}
+
+interface EmbeddedExample extends TaskExample {
+  embedding: number[];
+}
+
+const embeddedExamples = new WeakMap<
+  EmbeddingsInterface,
+  Promise<EmbeddedExample[]>
+>();
+
+async function embedExamples(
+  embeddings: EmbeddingsInterface,
+  examples: TaskExample[]
+): Promise<EmbeddedExample[]> {
+  const vectors = await embeddings.embedDocuments(
+    examples.map((example) => example.text)
+  );
+  return examples.map((example, i) => ({ ...example, embedding: vectors[i] }));
+}
+
+// The labeled examples are embedded once per process; a failed attempt is
+// retried on the next request
+function getExamples(embeddings: EmbeddingsInterface) {
+  let examples = embeddedExamples.get(embeddings);
+  if (!examples) {
+    examples = embedExamples(embeddings, TASK_EXAMPLES);
+    examples.catch(() => embeddedExamples.delete(embeddings));
+    embeddedExamples.set(embeddings, examples);
+  }
+  return examples;
+}
+
+function vote(
+  examples: EmbeddedExample[],
+  embedding: number[],
+  allowed: TaskType[]
+) {
+  const neighbours = examples
+    .filter((example) => allowed.includes(example.taskType))
+    .map((example) => ({
+      taskType: example.taskType,
+      similarity: cosineSimilarity(example.embedding, embedding),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, NEIGHBOURS);
+  const top = neighbours[0]?.similarity ?? 0;
+  const scores = new Map<TaskType, number>();
+  let total = 0;
+  for (const { taskType, similarity } of neighbours) {
+    const weight = Math.exp((similarity - top) / VOTE_TEMPERATURE);
+    scores.set(taskType, (scores.get(taskType) ?? 0) + weight);
+    total += weight;
+  }
+  let best: { taskType: TaskType; confidence: number } = {
+    taskType: "qa",
+    confidence: 0,
+  };
+  for (const [taskType, score] of scores) {
+    if (score / total > best.confidence) {
+      best = { taskType, confidence: score / total };
+    }
+  }
+  return best;
+}
+
+// The examples' vote on a request whose input is already embedded
+export async function classifyByExamples(
+  embeddings: EmbeddingsInterface,
+  embedding: number[],
+  shape: RequestShape
+) {
+  return vote(
+    await getExamples(embeddings),
+    embedding,
+    allowedTaskTypes(shape)
+  );
+}
+
+export interface ClassifierEvaluation {
+  total: number;
+  correct: number;
+  accuracy: number;
+  // Share of examples voted with at least MIN_EMBEDDING_CONFIDENCE, and the
+  // accuracy on those; the rest would go to the chat model
+  coverage: number;
+  confidentAccuracy: number;
+  // Correct share of each task's examples
+  recall: Partial<Record<TaskType, number>>;
+  mistakes: {
+    text: string;
+    expected: TaskType;
+    predicted: TaskType;
+    confidence: number;
+  }[];
+}
+
+// Accuracy of the example vote on the held-out set
+export async function evaluateClassifier(
+  embeddings: EmbeddingsInterface,
+  heldOut: TaskExample[] = HELD_OUT_TASK_EXAMPLES
+): Promise<ClassifierEvaluation> {
+  const [examples, tested] = await Promise.all([
+    getExamples(embeddings),
+    embedExamples(embeddings, heldOut),
+  ]);
+  const results = tested.map((example) => ({
+    example,
+    ...vote(
+      examples,
+      example.embedding,
+      allowedTaskTypes({ fileCount: example.fileCount ?? 0 })
+    ),
+  }));
+  const correct = results.filter(
+    (result) => result.taskType === result.example.taskType
+  );
+  const confident = results.filter(
+    (result) => result.confidence >= MIN_EMBEDDING_CONFIDENCE
+  );
+  const share = (part: number, whole: number) => (whole ? part / whole : 0);
+  const recall: Partial<Record<TaskType, number>> = {};
+  for (const task of TASK_TYPES) {
+    const ofTask = results.filter((result) => result.example.taskType === task);
+    if (ofTask.length === 0) continue;
+    recall[task] = share(
+      ofTask.filter((result) => result.taskType === task).length,
+      ofTask.length
+    );
+  }
+  return {
+    total: results.length,
+    correct: correct.length,
+    accuracy: share(correct.length, results.length),
+    coverage: share(confident.length, results.length),
+    confidentAccuracy: share(
+      confident.filter((result) => result.taskType === result.example.taskType)
+        .length,
+      confident.length
+    ),
+    recall,
+    mistakes: results
+      .filter((result) => result.taskType !== result.example.taskType)
+      .map((result) => ({
+        text: result.example.text,
+        expected: result.example.taskType,
+        predicted: result.taskType,
+        confidence: result.confidence,
+      })),
+  };
+}
@@ -0,0 +1,428 @@
+import type { TaskType } from "./task-classifier";
+
+// Labeled requests for the task classifier. TASK_EXAMPLES are the neighbours
+// a new request is compared with; HELD_OUT_TASK_EXAMPLES are never used for
+// classifying and only measure accuracy. Keep the two sets apart when adding
+// examples. `fileCount` is how many documents were attached.
+
+export interface TaskExample {
+  text: string;
+  taskType: TaskType;
+  fileCount?: number;
+}
+
+export const TASK_EXAMPLES: TaskExample[] = [
+  { text: "Write a blog post about remote work", taskType: "writing" },
+  {
+    text: "Draft an email to my landlord about the broken heater",
+    taskType: "writing",
+  },
+  {
+    text: "Compose a cover letter for a data analyst role",
+    taskType: "writing",
+  },
+  {
+    text: "Rewrite this paragraph to sound more professional",
+    taskType: "writing",
+  },
+  {
+    text: "Create a product description for noise-cancelling headphones",
+    taskType: "writing",
+  },
+  {
+    text: "Write meeting minutes from these notes",
+    taskType: "writing",
+    fileCount: 1,
+  },
+  {
+    text: "Help me write a LinkedIn post announcing my new job",
+    taskType: "writing",
+  },
+  {
+    text: "Draft a proposal based on the attached brief",
+    taskType: "writing",
+    fileCount: 1,
+  },
+  {
+    text: "Generate an outline for a report on renewable energy",
+    taskType: "writing",
+  },
+  { text: "Proofread and polish my introduction", taskType: "writing" },
+  { text: "Write a thank-you note to my team", taskType: "writing" },
+  {
+    text: "Turn these bullet points into a formal letter",
+    taskType: "writing",
+  },
+
+  {
+    text: "What does this contract say about termination?",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Read the attached paper and explain its method",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Walk me through chapter two of this document",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "What is the refund policy in this file?",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Explain what the second section of the report means",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Who are the parties named in this agreement?",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Find where the document mentions the deadline",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Help me understand this legal clause",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "What are the author's main arguments in this essay?",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Go through the manual and tell me how to reset the device",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  { text: "Does the lease allow pets?", taskType: "reading", fileCount: 1 },
+  {
+    text: "Read this article and tell me what it concludes",
+    taskType: "reading",
+    fileCount: 1,
+  },
+
+  { text: "What is the capital of Australia?", taskType: "qa" },
+  { text: "How does photosynthesis work?", taskType: "qa" },
+  { text: "Explain quantum computing like I'm five", taskType: "qa" },
+  { text: "Tell me a fun fact", taskType: "qa" },
+  {
+    text: "What's the difference between a virus and a bacterium?",
+    taskType: "qa",
+  },
+  { text: "Who wrote Pride and Prejudice?", taskType: "qa" },
+  { text: "Hi, how are you today?", taskType: "qa" },
+  { text: "Can you recommend a good book on history?", taskType: "qa" },
+  { text: "What does API stand for?", taskType: "qa" },
+  { text: "Why is the sky blue?", taskType: "qa" },
+  { text: "Thanks, that was helpful!", taskType: "qa" },
+  { text: "How many ounces are in a pound?", taskType: "qa" },
+
+  { text: "Summarize this report", taskType: "analysis", fileCount: 1 },
+  {
+    text: "Give me the key points of the attached document",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Extract all dates and amounts from this invoice",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Analyze the sentiment of these customer reviews",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "List the people and organizations mentioned in the file",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Analyze the sales figures in this spreadsheet",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Give me a short summary of the meeting transcript",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "What trends do you see in this data?",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Break down the main themes of the survey responses",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  { text: "TL;DR of this paper please", taskType: "analysis", fileCount: 1 },
+  {
+    text: "Pull out the action items from these notes",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  { text: "Analyze this text for tone and bias", taskType: "analysis" },
+
+  {
+    text: "If all cats are mammals and some mammals fly, do some cats fly?",
+    taskType: "reasoning",
+  },
+  { text: "Solve this logic puzzle step by step", taskType: "reasoning" },
+  {
+    text: "A train leaves at 3pm going 60 mph; when does it arrive 150 miles away?",
+    taskType: "reasoning",
+  },
+  {
+    text: "Think through the pros and cons of moving to another city",
+    taskType: "reasoning",
+  },
+  {
+    text: "Which option is cheaper over five years, leasing or buying?",
+    taskType: "reasoning",
+  },
+  { text: "Help me debug why my loop never terminates", taskType: "reasoning" },
+  {
+    text: "Prove that the square root of 2 is irrational",
+    taskType: "reasoning",
+  },
+  { text: "What's the flaw in this argument?", taskType: "reasoning" },
+  {
+    text: "Plan the order of tasks so the project finishes fastest",
+    taskType: "reasoning",
+  },
+  {
+    text: "Work out how many handshakes happen among 10 people",
+    taskType: "reasoning",
+  },
+  {
+    text: "Reason about whether this strategy will work",
+    taskType: "reasoning",
+  },
+  {
+    text: "Calculate the compound interest on $1,000 at 5% for 3 years",
+    taskType: "reasoning",
+  },
+
+  {
+    text: "Write a short story about a dragon who loves baking",
+    taskType: "creative",
+  },
+  { text: "Compose a poem about the ocean at night", taskType: "creative" },
+  {
+    text: "Imagine a world where cities float in the sky",
+    taskType: "creative",
+  },
+  { text: "Give me a random idea for a weekend project", taskType: "creative" },
+  { text: "Tell me a joke", taskType: "creative" },
+  { text: "Invent a new board game and its rules", taskType: "creative" },
+  { text: "Write song lyrics about summer love", taskType: "creative" },
+  {
+    text: "Create a recipe with what I have in the fridge",
+    taskType: "creative",
+  },
+  { text: "Brainstorm names for my coffee shop", taskType: "creative" },
+  {
+    text: "Describe an alien creature nobody has thought of",
+    taskType: "creative",
+  },
+  { text: "Write a haiku about autumn leaves", taskType: "creative" },
+  { text: "Make up a bedtime story for my kids", taskType: "creative" },
+
+  { text: "Compare these two contracts", taskType: "compare", fileCount: 2 },
+  {
+    text: "What changed between version 1 and version 2?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Show me the differences between these drafts",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Do these policies contradict each other?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Which clauses were added or removed in the new agreement?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Diff the old and new terms of service",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "How does the revised proposal differ from the original?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Line these documents up section by section",
+    taskType: "compare",
+    fileCount: 3,
+  },
+  {
+    text: "Are the payment terms the same in both files?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Contrast the three vendor quotes",
+    taskType: "compare",
+    fileCount: 3,
+  },
+  {
+    text: "What's different in the updated handbook?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Check whether the two reports agree on the numbers",
+    taskType: "compare",
+    fileCount: 2,
+  },
+];
+
+export const HELD_OUT_TASK_EXAMPLES: TaskExample[] = [
+  { text: "Write a speech for my sister's wedding", taskType: "writing" },
+  {
+    text: "Draft a polite reminder about an unpaid invoice",
+    taskType: "writing",
+  },
+  {
+    text: "Can you write an executive summary for our quarterly update?",
+    taskType: "writing",
+  },
+  { text: "Edit my essay so it flows better", taskType: "writing" },
+  { text: "Write a job posting for a frontend developer", taskType: "writing" },
+
+  {
+    text: "What does the policy say about overtime pay?",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Explain the warranty section of this manual",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "According to the document, when does the project start?",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Read this letter and tell me what they are asking for",
+    taskType: "reading",
+    fileCount: 1,
+  },
+  {
+    text: "Which obligations does the supplier have under this contract?",
+    taskType: "reading",
+    fileCount: 1,
+  },
+
+  { text: "How far is the moon from the earth?", taskType: "qa" },
+  { text: "What is machine learning?", taskType: "qa" },
+  { text: "Good morning! What can you do?", taskType: "qa" },
+  { text: "Who painted the Mona Lisa?", taskType: "qa" },
+  { text: "Explain inflation in simple terms", taskType: "qa" },
+
+  {
+    text: "Summarize the attached PDF in three sentences",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Extract every company name and date from this document",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Is the overall tone of this feedback positive or negative?",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "What are the main takeaways from this report?",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+  {
+    text: "Identify patterns in the attached expense data",
+    taskType: "analysis",
+    fileCount: 1,
+  },
+
+  {
+    text: "If it takes 5 machines 5 minutes to make 5 widgets, how long do 100 machines take to make 100?",
+    taskType: "reasoning",
+  },
+  {
+    text: "Figure out the best route to visit four cities with the least driving",
+    taskType: "reasoning",
+  },
+  {
+    text: "Is this syllogism valid? All A are B, no B are C, so no A are C",
+    taskType: "reasoning",
+  },
+  {
+    text: "Weigh up whether I should take the job offer with lower pay but remote work",
+    taskType: "reasoning",
+  },
+  {
+    text: "Estimate how many piano tuners there are in Chicago",
+    taskType: "reasoning",
+  },
+
+  { text: "Write a limerick about a forgetful robot", taskType: "creative" },
+  { text: "Dream up a superhero with an unusual power", taskType: "creative" },
+  { text: "Tell me a story set on a pirate ship", taskType: "creative" },
+  {
+    text: "Come up with a fun theme for a birthday party",
+    taskType: "creative",
+  },
+  { text: "Invent a cocktail and give it a name", taskType: "creative" },
+
+  {
+    text: "Compare the 2023 and 2024 versions of this policy",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "What did they change in the second draft?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Highlight the conflicting statements between these documents",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Which of these two offers has better terms, section by section?",
+    taskType: "compare",
+    fileCount: 2,
+  },
+  {
+    text: "Spot the differences between the original and amended lease",
+    taskType: "compare",
+    fileCount: 2,
+  },
+];
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { citationSchema } from "./citations";
+import { TASK_TYPES, type TaskType } from "./task-classifier";
+
+// Plans for compound requests ("summarize this report, then draft an email
+// about it"). The planner splits the request into ordered steps, each run by
+// one task handler with the state the earlier steps left behind, and the
+// step outputs are combined into one reply. Requests that do not read as
+// compound get a single step without asking a model.
+
+export const MAX_PLAN_STEPS = 4;
+
+// Wording that suggests more than one thing is being asked for in order
+export const compoundRequestPattern =
+  /\b(then|after that|afterwards|followed by|next|finally|and also)\b|;/i;
+
+export const TASK_DESCRIPTIONS: Record<TaskType, string> = {
+  writing: "drafts or rewrites content such as emails, posts and letters",
+  reading: "answers questions about the attached documents",
+  qa: "answers general questions and chats",
+  analysis:
+    "summarizes, extracts key points, entities or sentiment from documents",
+  reasoning: "works through logic, maths and decisions step by step",
+  creative: "writes stories, poems and ideas",
+  compare: "compares two or more attached documents section by section",
+};
+
+export const planStepSchema = z.object({
+  taskType: z.enum(TASK_TYPES),
+  instruction: z.string(),
+  // The handler's reply, once the step has run
+  response: z.string().optional(),
+  citations: z.array(citationSchema).optional(),
+});
+
+export type PlanStep = z.infer<typeof planStepSchema>;
+
+export const taskPlanSchema = z.object({
+  // The request as the user wrote it
+  request: z.string(),
+  steps: z.array(planStepSchema).min(1),
+  // Index of the step running now; steps.length once all have run
+  current: z.number().int().nonnegative(),
+});
+
+export type TaskPlan = z.infer<typeof taskPlanSchema>;
+
+// The planner's reply, limited to the task types this request allows
+export function planReplySchema(allowed: TaskType[]) {
+  return z.object({
+    steps: z
+      .array(
+        z.object({
+          taskType: z.enum(allowed as [TaskType, ...TaskType[]]),
+          instruction: z.string().min(1),
+        })
+      )
+      .min(1)
+      .max(MAX_PLAN_STEPS),
+  });
+}
+
+export function describeTaskTypes(allowed: TaskType[]) {
+  return allowed
+    .map((task) => `- ${task}: ${TASK_DESCRIPTIONS[task]}`)
+    .join("\n");
+}
+
+export function isMultiStep(plan?: TaskPlan) {
+  return (plan?.steps.length ?? 0) > 1;
+}
+
+// One reply made of every step's output under its instruction
+export function combinePlanResponses(plan: TaskPlan) {
+  return plan.steps
+    .map(
+      (step, index) =>
+        `Step ${index + 1} of ${plan.steps.length}: ${step.instruction}\n\n${step.response ?? "(not run)"}`
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,68 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import type { ChatProvider, ModelConfig } from "./chat-models";
+
+// Token counts decide how much text fits in one request. OpenAI models are
+// counted with their own tokenizer. Gemini and Ollama tokenizers are not
+// available here, so their counts use cl100k plus a safety margin.
+
+export interface TokenizedModel {
+  provider: ChatProvider;
+  model: string;
+}
+
+// Known context windows by model name prefix, longest prefix first
+const contextWindows: [string, number][] = [
+  ["gpt-4.1", 1047576],
+  ["gpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4-32k", 32768],
+  ["gpt-4", 8192],
+  ["gpt-3.5-turbo", 16385],
+  ["gemini-1.5", 1048576],
+  ["gemini-2", 1048576],
+  ["gemini-pro", 30720],
+];
+
+// Ollama serves 2048 tokens unless the model is run with a larger num_ctx
+const OLLAMA_CONTEXT_WINDOW = 2048;
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Room kept for the reply when a route does not set maxTokens
+export const DEFAULT_OUTPUT_TOKENS = 1024;
+
+// Non-OpenAI tokenizers tend to produce more tokens than cl100k
+const ESTIMATE_MARGIN = 1.2;
+
+// Tokens added per chat message for role and separators
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function contextWindowFor(config: ModelConfig) {
+  if (config.contextWindow) return config.contextWindow;
+  if (config.provider === "ollama") return OLLAMA_CONTEXT_WINDOW;
+  const name = config.model || "";
+  const known = contextWindows.find(([prefix]) => name.startsWith(prefix));
+  return known?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+const encoders = new Map<string, Tiktoken>();
+
+function encoderFor(model: TokenizedModel) {
+  const name = /^(gpt-4o|gpt-4\.1|o\d)/.test(model.model)
+    ? "o200k_base"
+    : "cl100k_base";
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = new Tiktoken(name === "o200k_base" ? o200k_base : cl100k_base);
+    encoders.set(name, encoder);
+  }
+  return encoder;
+}
+
+export function countTokens(text: string, model: TokenizedModel) {
+  const tokens = encoderFor(model).encode(text).length;
+  return model.provider === "openai"
+    ? tokens
+    : Math.ceil(tokens * ESTIMATE_MARGIN);
+}
@@ -0,0 +1,428 @@
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import { z } from "zod";
+import type { ToolCall, ToolSpec } from "./chat-models";
+import { findTables } from "./document-parser";
+import {
+  SessionNotFoundError,
+  getSession,
+  listSessions,
+} from "./session-store";
+import { escapeRegExp } from "./structured-extraction";
+
+// Tools the workflow lets function-calling models run before a handler
+// answers. Each tool declares its arguments as a zod schema, which is sent to
+// the model as JSON Schema and checked again before the tool runs, so a
+// malformed call becomes a recorded error rather than an exception.
+
+export interface ToolContext {
+  // Documents attached to the request
+  files: { name: string; content: string }[];
+  // Caller, whose sessions are the only ones session tools may read
+  userId?: string;
+}
+
+interface Tool<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  // Whether the request could use the tool at all. Cheap checks on its
+  // wording, so the tools model is only asked when some tool might help.
+  relevant(request: string, context: ToolContext): boolean;
+  run(args: z.infer<S>, context: ToolContext): unknown;
+}
+
+// A failure worth telling the model about, such as an unknown file name
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+export const toolCallRecordSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  args: z.record(z.unknown()),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+  // Plan step and round of tool calls within it
+  step: z.number().int().nonnegative(),
+  round: z.number().int().nonnegative(),
+});
+
+export type ToolCallRecord = z.infer<typeof toolCallRecordSchema>;
+
+// Long results are cut to this many characters before a model sees them
+const MAX_RESULT_CHARACTERS = 4000;
+const MAX_SEARCH_MATCHES = 50;
+const MAX_DOCUMENT_CHARACTERS = 20000;
+// Earlier sessions searched by find_sessions, most recent first
+const MAX_SESSIONS_SCANNED = 200;
+
+function defineTool<S extends z.ZodTypeAny>(tool: Tool<S>): Tool<S> {
+  return tool;
+}
+
+// The named attachment, or the only one when no name is given
+function findFile(context: ToolContext, filename?: string) {
+  const { files } = context;
+  const names = files.map((file) => file.name).join(", ");
+  if (files.length === 0) {
+    throw new ToolError("No documents are attached to this request");
+  }
+  if (!filename) {
+    if (files.length === 1) return files[0];
+    throw new ToolError(`Several documents are attached; name one of ${names}`);
+  }
+  const file =
+    files.find((f) => f.name === filename) ??
+    files.find((f) => f.name.toLowerCase() === filename.toLowerCase());
+  if (!file) {
+    throw new ToolError(
+      `No attached document is named "${filename}"; attached: ${names}`
+    );
+  }
+  return file;
+}
+
+const filenameArg = z
+  .string()
+  .optional()
+  .describe(
+    "Attached document to use; may be left out when only one is attached"
+  );
+
+// Session tools only read the caller's own sessions
+const countingWords =
+  /\b(words?|characters?|sentences?|paragraphs?|length|how long|reading time|count)\b/i;
+const searchingWords =
+  /\b(find|search|where|mentions?|mentioned|occurs?|occurrences?|appears?|quotes?|lines?)\b/i;
+const statisticsWords =
+  /\b(sum|total|average|mean|median|min(imum)?|max(imum)?|columns?|tables?|statistics|stats)\b/i;
+const sessionWords =
+  /\b(earlier|previous|last time|sessions?|conversations?|chats?|we (discussed|talked)|remember)\b/i;
+
+function requireUser(context: ToolContext) {
+  if (!context.userId) {
+    throw new ToolError("Earlier sessions are not available for this request");
+  }
+  return context.userId;
+}
+
+function parseNumber(cell: string) {
+  const cleaned = cell.replace(/[\s,$€£%]/g, "").replace(/^\((.*)\)$/, "-$1");
+  if (!cleaned) return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+function columnStats(name: string, cells: string[]) {
+  const filled = cells.filter((cell) => cell.trim());
+  const numbers = filled
+    .map(parseNumber)
+    .filter((value): value is number => value !== null);
+  // Mostly text: report what is there rather than statistics
+  if (numbers.length === 0 || numbers.length < filled.length / 2) {
+    return {
+      column: name,
+      numeric: false,
+      filled: filled.length,
+      distinct: new Set(filled).size,
+    };
+  }
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const sum = numbers.reduce((total, value) => total + value, 0);
+  return {
+    column: name,
+    numeric: true,
+    count: numbers.length,
+    sum,
+    mean: sum / numbers.length,
+    median:
+      sorted.length % 2
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function snippet(text: string, start: number, end: number) {
+  const before = Math.max(0, start - 80);
+  const after = Math.min(text.length, end + 80);
+  return `${before > 0 ? "…" : ""}${text.slice(before, after)}${after < text.length ? "…" : ""}`;
+}
+
+const TOOLS: Tool[] = [
+  defineTool({
+    name: "word_count",
+    description:
+      "Count the words, characters, sentences and paragraphs in an attached document or in the given text",
+    schema: z.object({
+      filename: filenameArg,
+      text: z
+        .string()
+        .optional()
+        .describe("Text to count instead of a document"),
+    }),
+    relevant: (request) => countingWords.test(request),
+    run({ filename, text }, context) {
+      const source =
+        text !== undefined
+          ? { name: "(text)", content: text }
+          : findFile(context, filename);
+      const content = source.content.trim();
+      const words = content.match(/\S+/g)?.length ?? 0;
+      return {
+        source: source.name,
+        words,
+        characters: content.length,
+        sentences: content.split(/[.!?]+(?:\s|$)/).filter((s) => s.trim())
+          .length,
+        paragraphs: content.split(/\n\s*\n/).filter((p) => p.trim()).length,
+        // At 200 words a minute
+        readingMinutes: Math.ceil(words / 200),
+      };
+    },
+  }),
+  defineTool({
+    name: "search_document",
+    description:
+      "Search an attached document for a word or phrase and return each match with its line number and surrounding text",
+    schema: z.object({
+      query: z.string().min(1).max(200).describe("Text to find, as written"),
+      filename: filenameArg,
+      caseSensitive: z.boolean().default(false),
+      wholeWord: z
+        .boolean()
+        .default(false)
+        .describe("Only match the query as a whole word or phrase"),
+      maxMatches: z.number().int().min(1).max(MAX_SEARCH_MATCHES).default(20),
+    }),
+    relevant: (request, context) =>
+      context.files.length > 0 && searchingWords.test(request),
+    run({ query, filename, caseSensitive, wholeWord, maxMatches }, context) {
+      const file = findFile(context, filename);
+      // The query is matched literally: a model-written pattern, perhaps
+      // planted in an uploaded document, could backtrack for minutes and
+      // block the server
+      const literal = escapeRegExp(query);
+      const regex = new RegExp(
+        wholeWord ? `(?<!\\w)${literal}(?!\\w)` : literal,
+        caseSensitive ? "g" : "gi"
+      );
+      const matches: { line: number; match: string; context: string }[] = [];
+      let total = 0;
+      let line = 1;
+      let counted = 0;
+      for (const match of file.content.matchAll(regex)) {
+        total++;
+        if (matches.length >= maxMatches) continue;
+        for (; counted < match.index; counted++) {
+          if (file.content[counted] === "\n") line++;
+        }
+        const end = match.index + match[0].length;
+        matches.push({
+          line,
+          match: match[0].slice(0, 200),
+          context: snippet(file.content, match.index, end),
+        });
+      }
+      return { filename: file.name, totalMatches: total, matches };
+    },
+  }),
+  defineTool({
+    name: "table_stats",
+    description:
+      "Count, sum, mean, median, min and max of the numeric columns of a table in an attached document",
+    schema: z.object({
+      filename: filenameArg,
+      table: z
+        .number()
+        .int()
+        .min(1)
+        .default(1)
+        .describe("Which table, counting from 1 in document order"),
+      column: z
+        .string()
+        .optional()
+        .describe("Header of a single column to report"),
+    }),
+    relevant: (request, context) =>
+      context.files.length > 0 && statisticsWords.test(request),
+    run({ filename, table, column }, context) {
+      const file = findFile(context, filename);
+      const tables = findTables(file.content);
+      if (tables.length === 0) {
+        throw new ToolError(`${file.name} has no tables`);
+      }
+      const rows = tables[table - 1];
+      if (!rows) {
+        throw new ToolError(
+          `${file.name} has ${tables.length} tables; there is no table ${table}`
+        );
+      }
+      const [header, ...body] = rows;
+      const columns = header
+        .map((name, index) => ({ name: name || `Column ${index + 1}`, index }))
+        .filter(
+          ({ name }) => !column || name.toLowerCase() === column.toLowerCase()
+        );
+      if (columns.length === 0) {
+        throw new ToolError(
+          `Table ${table} has no column "${column}"; columns: ${header.join(", ")}`
+        );
+      }
+      return {
+        filename: file.name,
+        table,
+        tables: tables.length,
+        rows: body.length,
+        columns: columns.map(({ name, index }) =>
+          columnStats(
+            name,
+            body.map((row) => row[index] ?? "")
+          )
+        ),
+      };
+    },
+  }),
+  defineTool({
+    name: "find_sessions",
+    description:
+      "Look up earlier chat sessions by words in their title, document name or messages; without a query, list the most recent",
+    schema: z.object({
+      query: z.string().max(200).optional(),
+      limit: z.number().int().min(1).max(20).default(5),
+    }),
+    relevant: (request, context) =>
+      context.userId !== undefined && sessionWords.test(request),
+    async run({ query, limit }, context) {
+      const userId = requireUser(context);
+      const summaries = await listSessions(userId);
+      const needle = query?.trim().toLowerCase();
+      if (!needle) return { sessions: summaries.slice(0, limit) };
+      const found = [];
+      for (const summary of summaries.slice(0, MAX_SESSIONS_SCANNED)) {
+        if (found.length >= limit) break;
+        const session = await getSession(userId, summary.id).catch(() => null);
+        if (!session) continue;
+        const messages = session.messages
+          .filter((message) => message.content.toLowerCase().includes(needle))
+          .slice(0, 3)
+          .map((message) => {
+            const start = message.content.toLowerCase().indexOf(needle);
+            return {
+              role: message.role,
+              text: snippet(message.content, start, start + needle.length),
+            };
+          });
+        const named = [summary.title, summary.documentName ?? ""].some((text) =>
+          text.toLowerCase().includes(needle)
+        );
+        if (named || messages.length > 0) found.push({ ...summary, messages });
+      }
+      return { sessions: found };
+    },
+  }),
+  defineTool({
+    name: "get_document",
+    description:
+      "Fetch the document stored with an earlier chat session, by the session id find_sessions returns",
+    schema: z.object({
+      id: z.string().describe("Session id"),
+      maxCharacters: z
+        .number()
+        .int()
+        .min(100)
+        .max(MAX_DOCUMENT_CHARACTERS)
+        .default(8000),
+    }),
+    relevant: (request, context) =>
+      context.userId !== undefined && sessionWords.test(request),
+    async run({ id, maxCharacters }, context) {
+      const userId = requireUser(context);
+      let session;
+      try {
+        session = await getSession(userId, id);
+      } catch (error) {
+        if (error instanceof SessionNotFoundError) {
+          throw new ToolError(`No session has the id ${id}`);
+        }
+        throw error;
+      }
+      if (!session.document) {
+        throw new ToolError(`Session "${session.title}" has no document`);
+      }
+      const { name, text } = session.document;
+      return {
+        id,
+        session: session.title,
+        name,
+        characters: text.length,
+        text: text.slice(0, maxCharacters),
+        truncated: text.length > maxCharacters,
+      };
+    },
+  }),
+];
+
+export const TOOL_NAMES = TOOLS.map((tool) => tool.name);
+
+export const TOOL_SPECS: ToolSpec[] = TOOLS.map((tool) => ({
+  name: tool.name,
+  description: tool.description,
+  parameters: toJsonSchema(tool.schema),
+}));
+
+// Specs of the tools the request could use; none means the workflow can
+// skip asking the tools model
+export function relevantToolSpecs(request: string, context: ToolContext) {
+  return TOOL_SPECS.filter((_, index) =>
+    TOOLS[index].relevant(request, context)
+  );
+}
+
+// Validate and run one call. Failures are recorded on the call: the model
+// sees ToolError messages, anything else is logged and reported generically.
+export async function runToolCall(
+  call: ToolCall,
+  context: ToolContext,
+  position: { step: number; round: number }
+): Promise<ToolCallRecord> {
+  const record = { ...call, ...position };
+  const tool = TOOLS.find((candidate) => candidate.name === call.name);
+  if (!tool) {
+    return {
+      ...record,
+      error: `Unknown tool; use one of ${TOOL_NAMES.join(", ")}`,
+    };
+  }
+  const args = tool.schema.safeParse(call.args);
+  if (!args.success) {
+    return {
+      ...record,
+      error: `Invalid arguments: ${args.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ")}`,
+    };
+  }
+  try {
+    return { ...record, result: await tool.run(args.data, context) };
+  } catch (error) {
+    if (error instanceof ToolError) return { ...record, error: error.message };
+    console.error(`Tool ${call.name} failed:`, error);
+    return { ...record, error: "The tool failed to run" };
+  }
+}
+
+// A recorded call's outcome as a model should read it
+export function toolResultText(record: ToolCallRecord) {
+  const text = record.error
+    ? `Error: ${record.error}`
+    : JSON.stringify(record.result);
+  return text.length > MAX_RESULT_CHARACTERS
+    ? `${text.slice(0, MAX_RESULT_CHARACTERS)}… (cut)`
+    : text;
+}
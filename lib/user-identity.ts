@@ -0,0 +1,28 @@
+import { cookies } from "next/headers";
+import { v4 as uuidv4 } from "uuid";
+
+// There are no accounts yet, so each browser gets an anonymous id in a
+// long-lived cookie. Memory is namespaced by this id.
+
+export const USER_ID_COOKIE = "docmind_user";
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+const userIdPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The caller's user id, issuing a new one on first visit. Only callable from
+// route handlers, where the cookie can be set on the response.
+export async function getUserId(): Promise<string> {
+  const cookieStore = await cookies();
+  const existing = cookieStore.get(USER_ID_COOKIE)?.value;
+  if (existing && userIdPattern.test(existing)) return existing;
+
+  const userId = uuidv4();
+  cookieStore.set(USER_ID_COOKIE, userId, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: ONE_YEAR_SECONDS,
+  });
+  return userId;
+}
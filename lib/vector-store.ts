@@ -0,0 +1,89 @@
+// Storage for embedded memory (document chunks and past responses). The
+// orchestrator only talks to this interface; pinecone-vector-store.ts and
+// local-vector-store.ts are the backends. Every operation runs inside a
+// MemoryScope so one user's memory is never read, counted or cleared on
+// behalf of another.
+
+export type VectorMetadataValue = string | number | boolean | string[];
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+// Equality match on every listed metadata field
+export type VectorFilter = Record<string, string | number | boolean>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+}
+
+// A user's memory, or one session within it
+export interface MemoryScope {
+  userId: string;
+  sessionId?: string;
+}
+
+export interface VectorStoreStats {
+  backend: string;
+  totalVectors: number;
+  dimension?: number;
+  details?: Record<string, unknown>;
+}
+
+// Records are written with the scope's userId and sessionId in their
+// metadata. Reads, stats and clear cover the whole user when the scope has
+// no sessionId, and only that session when it does.
+export interface VectorStore {
+  readonly backend: string;
+  upsert(scope: MemoryScope, records: VectorRecord[]): Promise<void>;
+  query(scope: MemoryScope, query: VectorQuery): Promise<VectorMatch[]>;
+  delete(scope: MemoryScope, ids: string[]): Promise<void>;
+  stats(scope: MemoryScope): Promise<VectorStoreStats>;
+  clear(scope: MemoryScope): Promise<void>;
+}
+
+export type VectorStoreBackend = "pinecone" | "local";
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function scopeMetadata(scope: MemoryScope): Record<string, string> {
+  return scope.sessionId
+    ? { userId: scope.userId, sessionId: scope.sessionId }
+    : { userId: scope.userId };
+}
+
+// The metadata filter that keeps a query inside its scope
+export function scopeFilter(
+  scope: MemoryScope,
+  filter?: VectorFilter
+): VectorFilter {
+  return { ...filter, ...scopeMetadata(scope) };
+}
+
+export function matchesFilter(metadata: VectorMetadata, filter?: VectorFilter) {
+  if (!filter) return true;
+  return Object.entries(filter).every(
+    ([key, value]) => metadata[key] === value
+  );
+}
@@ -0,0 +1,24 @@
+import { loadEnvConfig } from "@next/env";
+import { evaluateTaskClassifier } from "../lib/advanced-ai-orchestrator";
+
+// Accuracy of the task classifier on its held-out labeled examples, for
+// tuning the examples. Each run embeds the held-out set with OpenAI, so it is
+// run by hand (npm run evaluate:classifier) rather than served by the app.
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  const evaluation = await evaluateTaskClassifier();
+  if (!evaluation) {
+    console.error("The classifier needs embeddings; set OPENAI_API_KEY");
+    process.exitCode = 1;
+    return;
+  }
+  if ("error" in evaluation) {
+    console.error(evaluation.error);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(JSON.stringify(evaluation, null, 2));
+}
+
+main();